@@ -0,0 +1,99 @@
+/**
+ * Backup command for the Money Manager MCP server
+ * `money-manager-mcp backup` downloads one snapshot of the database and
+ * applies the retention policy. With `--schedule` it keeps running and takes
+ * a snapshot each time backup.schedule fires.
+ */
+
+import { createHttpClient, type HttpClient } from "../client/http-client.js";
+import { loadConfig } from "../config/index.js";
+import { ValidationError, wrapError } from "../errors/index.js";
+import {
+  backupDirectory,
+  DEFAULT_BACKUP_SCHEDULE,
+  pruneBackups,
+  saveBackup,
+} from "./index.js";
+import { nextCronRun, parseCronSchedule } from "./schedule.js";
+
+/**
+ * Longest delay setTimeout accepts
+ */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Waits until a point in time
+ */
+async function sleepUntil(date: Date): Promise<void> {
+  for (;;) {
+    const remaining = date.getTime() - Date.now();
+    if (remaining <= 0) {
+      return;
+    }
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(remaining, MAX_TIMEOUT_MS)),
+    );
+  }
+}
+
+/**
+ * Takes one snapshot and deletes the snapshots the retention policy drops
+ */
+async function takeSnapshot(httpClient: HttpClient): Promise<void> {
+  const entry = await saveBackup(httpClient, "scheduled");
+  console.error(
+    `[Backup] Saved ${entry.file} (${entry.size} bytes, sha256 ${entry.sha256})`,
+  );
+
+  const removed = pruneBackups();
+  if (removed.length > 0) {
+    console.error(
+      `[Backup] Removed by retention policy: ${removed.map((r) => r.file).join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Runs the backup command
+ * @param args - Arguments after "backup": --schedule and --baseUrl <url>
+ */
+export async function runBackupCommand(args: string[]): Promise<void> {
+  const config = await loadConfig();
+  const baseUrlIndex = args.indexOf("--baseUrl");
+  const baseUrl = baseUrlIndex === -1 ? undefined : args[baseUrlIndex + 1];
+  if (baseUrl) {
+    config.server.baseUrl = baseUrl;
+  }
+  const httpClient = createHttpClient(config);
+
+  if (!args.includes("--schedule")) {
+    await takeSnapshot(httpClient);
+    return;
+  }
+
+  const expression = config.backup?.schedule ?? DEFAULT_BACKUP_SCHEDULE;
+  const schedule = parseCronSchedule(expression);
+  console.error(
+    `[Backup] Taking snapshots on schedule "${expression}" in ${backupDirectory()}`,
+  );
+
+  for (;;) {
+    const next = nextCronRun(schedule, new Date());
+    if (!next) {
+      throw ValidationError.invalidFormat(
+        "backup.schedule",
+        "a schedule that fires at least once",
+        expression,
+      );
+    }
+    console.error(`[Backup] Next snapshot at ${next.toString()}`);
+    await sleepUntil(next);
+
+    try {
+      await takeSnapshot(httpClient);
+    } catch (error) {
+      // A failed snapshot is retried at the next scheduled time
+      console.error("[Backup] Snapshot failed:", wrapError(error).message);
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Comparison of two database backups
+ * Matches transactions, assets and cards by ID and reports what was added,
+ * removed or changed, and how each balance moved.
+ */
+
+import type { OfflineLedger } from "../offline/index.js";
+import type {
+  Asset,
+  BackupDiffResponse,
+  BalanceChange,
+  CreditCard,
+  FieldChange,
+  RecordDiff,
+  Transaction,
+} from "../types/index.js";
+import { roundAmount } from "../utils/index.js";
+
+/**
+ * Fields compared for each record type
+ * Balances are left out of assets and cards; they are reported as balance
+ * changes instead. Names derived from other records (payType, inOutType,
+ * linkAssetName) are left out so renaming an asset does not mark every
+ * record that refers to it as changed.
+ */
+const TRANSACTION_FIELDS = [
+  "mbDate",
+  "assetId",
+  "toAssetId",
+  "mcid",
+  "mbCategory",
+  "mcscid",
+  "subCategory",
+  "mbContent",
+  "mbCash",
+  "inOutCode",
+  "mbDetailContent",
+] as const;
+
+const ASSET_FIELDS = ["assetName", "assetGroupId"] as const;
+
+const CARD_FIELDS = [
+  "assetName",
+  "linkAssetId",
+  "jungsanDay",
+  "paymentDay",
+] as const;
+
+/**
+ * Compares two lists of records matched by ID
+ */
+function diffRecords<T, K extends keyof T>(
+  before: T[],
+  after: T[],
+  id: (record: T) => string,
+  fields: readonly K[],
+): RecordDiff<T> {
+  const previous = new Map(before.map((record) => [id(record), record]));
+  const current = new Set(after.map(id));
+  const diff: RecordDiff<T> = { added: [], removed: [], modified: [] };
+
+  for (const record of after) {
+    const old = previous.get(id(record));
+    if (!old) {
+      diff.added.push(record);
+      continue;
+    }
+
+    const changes: Record<string, FieldChange> = {};
+    for (const field of fields) {
+      const was = old[field] ?? "";
+      const now = record[field] ?? "";
+      if (was !== now) {
+        changes[String(field)] = { before: was, after: now };
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      diff.modified.push({ record, changes });
+    }
+  }
+
+  diff.removed = before.filter((record) => !current.has(id(record)));
+  return diff;
+}
+
+/**
+ * Lists the assets and cards of a ledger with their balances
+ */
+function balances(ledger: OfflineLedger): Map<string, Asset | CreditCard> {
+  return new Map(
+    [
+      ...ledger.assetGroups().flatMap((group) => group.children),
+      ...ledger.cardGroups().flatMap((group) => group.children),
+    ].map((asset) => [asset.assetId, asset]),
+  );
+}
+
+/**
+ * Compares an older backup with a newer one
+ */
+export function diffLedgers(
+  from: OfflineLedger,
+  to: OfflineLedger,
+): BackupDiffResponse {
+  const before = balances(from);
+  const after = balances(to);
+
+  const balanceChanges: BalanceChange[] = [];
+  for (const assetId of new Set([...before.keys(), ...after.keys()])) {
+    const old = before.get(assetId);
+    const now = after.get(assetId);
+    const difference = roundAmount(
+      (now?.assetMoney ?? 0) - (old?.assetMoney ?? 0),
+    );
+    if (difference !== 0) {
+      balanceChanges.push({
+        assetId,
+        assetName: now?.assetName ?? old?.assetName ?? "",
+        before: old?.assetMoney ?? 0,
+        after: now?.assetMoney ?? 0,
+        difference,
+      });
+    }
+  }
+  balanceChanges.sort(
+    (a, b) => Math.abs(b.difference) - Math.abs(a.difference),
+  );
+
+  const transactionId = (transaction: Transaction) => transaction.id;
+  const assetId = (asset: Asset | CreditCard) => asset.assetId;
+
+  return {
+    from: from.info,
+    to: to.info,
+    transactions: diffRecords(
+      from.listTransactions(),
+      to.listTransactions(),
+      transactionId,
+      TRANSACTION_FIELDS,
+    ),
+    assets: diffRecords(
+      from.assetGroups().flatMap((group) => group.children),
+      to.assetGroups().flatMap((group) => group.children),
+      assetId,
+      ASSET_FIELDS,
+    ),
+    cards: diffRecords(
+      from.cardGroups().flatMap((group) => group.children),
+      to.cardGroups().flatMap((group) => group.children),
+      assetId,
+      CARD_FIELDS,
+    ),
+    balanceChanges,
+    netChange: roundAmount(
+      balanceChanges.reduce((sum, change) => sum + change.difference, 0),
+    ),
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * Database backups for the Money Manager MCP server
+ * Checks that a file is a Money Manager database, counts its rows, and keeps
+ * local copies in the backup directory together with a manifest of their
+ * SHA-256 checksums.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { getConfig } from "../config/index.js";
+import type { HttpClient } from "../client/http-client.js";
+import { FileError } from "../errors/index.js";
+import {
+  readJsonFile,
+  resolveDataPath,
+  writeJsonFile,
+} from "../storage/index.js";
+import type {
+  BackupKind,
+  BackupManifest,
+  BackupManifestEntry,
+  BackupRetentionConfig,
+} from "../types/index.js";
+import { formatDate } from "../utils/index.js";
+import { SqliteFile } from "./sqlite.js";
+
+/**
+ * Tables every Money Manager database has
+ */
+export const DEFAULT_REQUIRED_TABLES = ["INOUTCASH", "ASSETS", "ZCATEGORY"];
+
+/**
+ * Default backup directory, relative to the data directory
+ */
+export const DEFAULT_BACKUP_DIR = "backups";
+
+/**
+ * Default schedule: every night at 02:00
+ */
+export const DEFAULT_BACKUP_SCHEDULE = "0 2 * * *";
+
+/**
+ * Default number of daily, weekly and monthly snapshots kept
+ */
+export const DEFAULT_BACKUP_RETENTION: BackupRetentionConfig = {
+  daily: 7,
+  weekly: 4,
+  monthly: 12,
+};
+
+/**
+ * Manifest file in the backup directory
+ */
+const MANIFEST_FILE = "manifest.json";
+
+/**
+ * Opens a database file, passes it to a callback and closes it again
+ * @returns What the callback returns
+ * @throws {FileError} If the file cannot be read or is not a SQLite database
+ */
+export async function withDatabaseFile<T>(
+  filePath: string,
+  read: (db: SqliteFile) => T,
+): Promise<T> {
+  if (!fs.existsSync(filePath)) {
+    throw FileError.notFound(filePath);
+  }
+
+  let data: Buffer;
+  try {
+    data = fs.readFileSync(filePath);
+  } catch (error) {
+    throw FileError.readFailed(
+      filePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  let db: SqliteFile;
+  try {
+    db = await SqliteFile.open(data);
+  } catch (error) {
+    throw FileError.invalidDatabase(
+      filePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  try {
+    return read(db);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Counts the rows of every table in a database
+ * @throws {FileError} If a table cannot be read
+ */
+export function countTableRows(
+  db: SqliteFile,
+  filePath: string,
+): Record<string, number> {
+  try {
+    const counts: Record<string, number> = {};
+    for (const table of db.tables()) {
+      counts[table.name] = db.countRows(table);
+    }
+    return counts;
+  } catch (error) {
+    throw FileError.invalidDatabase(
+      filePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Checks that a file is a Money Manager database
+ * @returns The row count of every table
+ * @throws {FileError} If the file is not a SQLite database, cannot be read
+ *   or lacks one of the required tables
+ */
+export async function verifyBackupFile(
+  filePath: string,
+): Promise<Record<string, number>> {
+  return withDatabaseFile(filePath, (db) => {
+    const counts = countTableRows(db, filePath);
+
+    const requiredTables =
+      getConfig().backup?.requiredTables ?? DEFAULT_REQUIRED_TABLES;
+    const missing = requiredTables.filter((name) => !db.table(name));
+    if (missing.length > 0) {
+      throw FileError.invalidDatabase(
+        filePath,
+        `missing table(s) ${missing.join(", ")}`,
+      );
+    }
+
+    return counts;
+  });
+}
+
+/**
+ * Computes the SHA-256 hash of a file
+ * @throws {FileError} If the file cannot be read
+ */
+export function hashFile(filePath: string): string {
+  try {
+    return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+  } catch (error) {
+    throw FileError.readFailed(
+      filePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Resolves the backup directory
+ */
+export function backupDirectory(): string {
+  return resolveDataPath(getConfig().backup?.directory ?? DEFAULT_BACKUP_DIR);
+}
+
+/**
+ * Builds the path of a new local backup, e.g.
+ * backups/pre-restore-2024-01-31T09-15-00Z.sqlite
+ * A number is added if a backup was already taken in the same second, so an
+ * existing file is never overwritten.
+ */
+export function localBackupPath(prefix: string, date = new Date()): string {
+  const timestamp = date
+    .toISOString()
+    .replace(/\.\d+Z$/, "Z")
+    .replace(/:/g, "-");
+  const base = path.join(backupDirectory(), `${prefix}-${timestamp}`);
+
+  let filePath = `${base}.sqlite`;
+  for (let n = 2; fs.existsSync(filePath); n++) {
+    filePath = `${base}-${n}.sqlite`;
+  }
+  return filePath;
+}
+
+/**
+ * Reads the manifest of local backups
+ * @throws {FileError} If the manifest exists but cannot be read
+ */
+export function readBackupManifest(): BackupManifest {
+  return readJsonFile<BackupManifest>(
+    path.join(backupDirectory(), MANIFEST_FILE),
+    { backups: [] },
+  );
+}
+
+/**
+ * Writes the manifest of local backups
+ * @throws {FileError} If the manifest cannot be written
+ */
+function writeBackupManifest(manifest: BackupManifest): void {
+  writeJsonFile(path.join(backupDirectory(), MANIFEST_FILE), manifest);
+}
+
+/**
+ * Downloads the database to a new file in the backup directory and records
+ * it in the manifest
+ * @throws {FileError} If the download is not a SQLite database or cannot be
+ *   written
+ */
+export async function saveBackup(
+  httpClient: HttpClient,
+  kind: BackupKind,
+  date = new Date(),
+): Promise<BackupManifestEntry> {
+  const filePath = localBackupPath(
+    kind === "scheduled" ? "snapshot" : kind,
+    date,
+  );
+  await httpClient.downloadFileGet("/money.sqlite", filePath);
+
+  let rowCounts: Record<string, number>;
+  try {
+    rowCounts = await withDatabaseFile(filePath, (db) =>
+      countTableRows(db, filePath),
+    );
+  } catch (error) {
+    // Do not keep a download that is not a database
+    fs.rmSync(filePath, { force: true });
+    throw error;
+  }
+
+  const entry: BackupManifestEntry = {
+    file: path.basename(filePath),
+    kind,
+    createdAt: date.toISOString(),
+    size: fs.statSync(filePath).size,
+    sha256: hashFile(filePath),
+    rowCounts,
+  };
+  const manifest = readBackupManifest();
+  manifest.backups.push(entry);
+  writeBackupManifest(manifest);
+  return entry;
+}
+
+/**
+ * Returns the Monday of a date's week, as YYYY-MM-DD
+ */
+function weekStart(date: Date): string {
+  const monday = new Date(date.getTime());
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return formatDate(monday);
+}
+
+/**
+ * Picks the snapshots a retention policy keeps
+ * The newest snapshot of each of the last `daily` days, `weekly` weeks and
+ * `monthly` months (in UTC) is kept; a snapshot may count for all three.
+ * @returns File names of the snapshots to keep
+ */
+export function selectBackupsToKeep(
+  entries: BackupManifestEntry[],
+  retention: BackupRetentionConfig,
+): Set<string> {
+  const newestFirst = [...entries].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
+  const periods: Array<{ limit: number; key: (date: Date) => string }> = [
+    { limit: retention.daily, key: formatDate },
+    { limit: retention.weekly, key: weekStart },
+    { limit: retention.monthly, key: (date) => formatDate(date).slice(0, 7) },
+  ];
+
+  const keep = new Set<string>();
+  for (const { limit, key } of periods) {
+    const seen = new Set<string>();
+    for (const entry of newestFirst) {
+      const period = key(new Date(entry.createdAt));
+      if (seen.has(period)) {
+        continue;
+      }
+      if (seen.size >= limit) {
+        break;
+      }
+      seen.add(period);
+      keep.add(entry.file);
+    }
+  }
+  return keep;
+}
+
+/**
+ * Deletes scheduled snapshots the retention policy no longer keeps
+ * Other backups, such as pre-restore copies, are never deleted.
+ * @returns The snapshots that were deleted
+ * @throws {FileError} If the manifest cannot be read or written
+ */
+export function pruneBackups(
+  retention: BackupRetentionConfig = getConfig().backup?.retention ??
+    DEFAULT_BACKUP_RETENTION,
+): BackupManifestEntry[] {
+  const manifest = readBackupManifest();
+  const keep = selectBackupsToKeep(
+    manifest.backups.filter((entry) => entry.kind === "scheduled"),
+    retention,
+  );
+  const removed = manifest.backups.filter(
+    (entry) => entry.kind === "scheduled" && !keep.has(entry.file),
+  );
+  if (removed.length === 0) {
+    return [];
+  }
+
+  for (const entry of removed) {
+    fs.rmSync(path.join(backupDirectory(), entry.file), { force: true });
+  }
+  manifest.backups = manifest.backups.filter(
+    (entry) => !removed.includes(entry),
+  );
+  writeBackupManifest(manifest);
+  return removed;
+}
@@ -0,0 +1,172 @@
+/**
+ * Cron-style schedules for backups
+ * Supports the five standard fields (minute, hour, day of month, month, day
+ * of week) with `*`, numbers, lists, ranges and steps, evaluated in the
+ * server's local time.
+ */
+
+import { ValidationError } from "../errors/index.js";
+
+/**
+ * A parsed schedule
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day of month / day of week were restricted */
+  dayOfMonthSet: boolean;
+  dayOfWeekSet: boolean;
+}
+
+/**
+ * Bounds of each field, in order
+ */
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is accepted for Sunday as in cron
+  { name: "day of week", min: 0, max: 7 },
+];
+
+/**
+ * Longest time searched for the next run (about four years, to reach
+ * 29 February)
+ */
+const MAX_SEARCH_MINUTES = 4 * 366 * 24 * 60;
+
+/**
+ * Parses one field into the values it matches
+ */
+function parseField(
+  expression: string,
+  field: string,
+  min: number,
+  max: number,
+): Set<number> {
+  const values = new Set<number>();
+  const invalid = () =>
+    ValidationError.invalidFormat(
+      "backup.schedule",
+      `a cron expression with a ${field} field between ${min} and ${max}`,
+      expression,
+    );
+
+  for (const part of expression === "" ? [] : expression.split(",")) {
+    const [range = "", stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid();
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = Number(from);
+      end =
+        to === undefined ? (stepText === undefined ? start : max) : Number(to);
+    }
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw invalid();
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  if (values.size === 0) {
+    throw invalid();
+  }
+  return values;
+}
+
+/**
+ * Parses a five-field cron expression, e.g. "30 2 * * *" for 02:30 daily
+ * @throws {ValidationError} If the expression is not valid
+ */
+export function parseCronSchedule(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw ValidationError.invalidFormat(
+      "backup.schedule",
+      "a cron expression with five fields (minute hour day month weekday)",
+      expression,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map(
+    ({ name, min, max }, index) =>
+      parseField(parts[index] ?? "", name, min, max),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // A field starting with "*" (also "*/2") does not restrict the day
+    dayOfMonthSet: !parts[2]?.startsWith("*"),
+    dayOfWeekSet: !parts[4]?.startsWith("*"),
+  };
+}
+
+/**
+ * Checks whether a date's day matches the schedule
+ * As in cron, when both day fields are restricted either one may match.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.dayOfMonthSet && schedule.dayOfWeekSet) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Finds the next time the schedule fires, strictly after a given time
+ * @returns The next run, or undefined if the schedule never fires (e.g. 31
+ *   February)
+ */
+export function nextCronRun(
+  schedule: CronSchedule,
+  after: Date,
+): Date | undefined {
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  for (let steps = 0; steps < MAX_SEARCH_MINUTES; steps++) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,154 @@
+/**
+ * Read-only access to SQLite database files
+ * Uses sql.js, SQLite compiled to WebAssembly, so no native module has to be
+ * built. The whole file is held in memory while it is open.
+ */
+
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+
+/**
+ * Value of one column
+ */
+export type SqliteValue = null | number | string | Uint8Array;
+
+/**
+ * A table in the database schema
+ */
+export interface SqliteTable {
+  name: string;
+  /** Column names in declaration order */
+  columns: string[];
+}
+
+const HEADER = "SQLite format 3\0";
+
+/**
+ * Most problems reported by an integrity check, as in SQLite
+ */
+const MAX_PROBLEMS = 100;
+
+/**
+ * SQLite engine, loaded on first use
+ */
+let engine: Promise<SqlJsStatic> | undefined;
+
+/**
+ * Quotes a table name for use in SQL
+ */
+function quoteName(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * A SQLite database file loaded into memory
+ * Call close() when done to release the memory.
+ */
+export class SqliteFile {
+  private schema?: SqliteTable[];
+
+  private constructor(private readonly db: Database) {}
+
+  /**
+   * Opens a database from the contents of its file
+   * @throws {Error} If the data is not a SQLite database or its schema cannot
+   *   be read
+   */
+  static async open(data: Uint8Array): Promise<SqliteFile> {
+    if (
+      data.length < 100 ||
+      Buffer.from(data.subarray(0, 16)).toString("latin1") !== HEADER
+    ) {
+      throw new Error("the file does not have a SQLite header");
+    }
+
+    const SQL = await (engine ??= initSqlJs());
+    const file = new SqliteFile(new SQL.Database(data));
+    try {
+      file.tables();
+    } catch (error) {
+      file.close();
+      throw error;
+    }
+    return file;
+  }
+
+  /**
+   * Lists the tables in the database, leaving out SQLite's own tables
+   */
+  tables(): SqliteTable[] {
+    if (!this.schema) {
+      const names = this.query(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\' ORDER BY rowid",
+      ).map((row) => String(row["name"]));
+      this.schema = names.map((name) => ({
+        name,
+        columns: this.query(`PRAGMA table_info(${quoteName(name)})`).map(
+          (row) => String(row["name"]),
+        ),
+      }));
+    }
+    return this.schema;
+  }
+
+  /**
+   * Finds a table by name, ignoring case
+   */
+  table(name: string): SqliteTable | undefined {
+    const wanted = name.toLowerCase();
+    return this.tables().find((table) => table.name.toLowerCase() === wanted);
+  }
+
+  /**
+   * Counts the rows of a table
+   */
+  countRows(table: SqliteTable): number {
+    const [row] = this.query(
+      `SELECT COUNT(*) AS count FROM ${quoteName(table.name)}`,
+    );
+    return Number(row?.["count"] ?? 0);
+  }
+
+  /**
+   * Reads the rows of a table in rowid order
+   */
+  readRows(table: SqliteTable): Record<string, SqliteValue>[] {
+    return this.query(`SELECT * FROM ${quoteName(table.name)}`);
+  }
+
+  /**
+   * Runs PRAGMA integrity_check
+   * @returns Problems found, empty if none
+   */
+  checkIntegrity(): string[] {
+    try {
+      return this.query(`PRAGMA integrity_check(${MAX_PROBLEMS})`)
+        .flatMap((row) => String(Object.values(row)[0]).split("\n"))
+        .filter((line) => line !== "ok" && !/^\*\*\* in database/.test(line));
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+  }
+
+  /**
+   * Releases the database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Runs a statement and returns every row it yields
+   */
+  private query(sql: string): Record<string, SqliteValue>[] {
+    const statement = this.db.prepare(sql);
+    try {
+      const rows: Record<string, SqliteValue>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+}
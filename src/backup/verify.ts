@@ -0,0 +1,90 @@
+/**
+ * Integrity verification of database backups
+ * Reports what is wrong with a backup file instead of failing on the first
+ * problem, and summarizes its contents so they can be compared with the
+ * server.
+ */
+
+import * as fs from "fs";
+import { getConfig } from "../config/index.js";
+import { findSchemaProblems, OfflineLedger } from "../offline/index.js";
+import type { BackupVerifyResponse } from "../types/index.js";
+import { roundAmount } from "../utils/index.js";
+import {
+  countTableRows,
+  DEFAULT_REQUIRED_TABLES,
+  hashFile,
+  withDatabaseFile,
+} from "./index.js";
+
+/**
+ * Checks a backup file's structure and schema and summarizes its ledger
+ * @throws {FileError} If the file cannot be read or is not a SQLite database
+ */
+export async function inspectBackupFile(
+  filePath: string,
+): Promise<BackupVerifyResponse> {
+  return withDatabaseFile(filePath, (db) => {
+    const { size, mtime } = fs.statSync(filePath);
+    const integrityProblems = db.checkIntegrity();
+    const requiredTables =
+      getConfig().backup?.requiredTables ?? DEFAULT_REQUIRED_TABLES;
+    const schemaProblems = [
+      ...new Set([
+        ...requiredTables
+          .filter((name) => !db.table(name))
+          .map((name) => `missing table ${name}`),
+        ...findSchemaProblems(db),
+      ]),
+    ];
+
+    let rowCounts: Record<string, number> = {};
+    try {
+      rowCounts = countTableRows(db, filePath);
+    } catch (error) {
+      integrityProblems.push(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    const response: BackupVerifyResponse = {
+      valid: false,
+      filePath,
+      fileSize: size,
+      sha256: hashFile(filePath),
+      integrityProblems,
+      schemaProblems,
+      rowCounts,
+    };
+
+    if (schemaProblems.length === 0) {
+      try {
+        const ledger = new OfflineLedger(db, filePath, mtime);
+        const transactions = ledger.listTransactions();
+        response.transactionCount = transactions.length;
+        response.earliestDate = transactions[0]?.mbDate;
+        response.latestDate = transactions[transactions.length - 1]?.mbDate;
+        response.totalBalance = roundAmount(
+          ledger
+            .assetGroups()
+            .flatMap((group) => group.children)
+            .reduce((sum, asset) => sum + asset.assetMoney, 0),
+        );
+        response.totalUnpaid = roundAmount(
+          ledger
+            .cardGroups()
+            .flatMap((group) => group.children)
+            .reduce((sum, card) => sum + Math.abs(card.notPayMoney), 0),
+        );
+      } catch (error) {
+        integrityProblems.push(
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+
+    response.valid =
+      integrityProblems.length === 0 && schemaProblems.length === 0;
+    return response;
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Budget tracking for the Money Manager MCP server
+ * Works out which period a budget covers on a given day and how spending in
+ * that period compares with the budget
+ */
+
+import type { Budget, BudgetStatus } from "../types/index.js";
+import {
+  daysBetween,
+  endOfMonth,
+  roundAmount,
+  startOfMonth,
+  type DateRange,
+} from "../utils/index.js";
+
+/**
+ * Returns the period of a budget that contains a date
+ * Monthly budgets cover the calendar month of the date; custom budgets only
+ * their own range.
+ * @returns The period, or undefined if a custom budget does not cover the date
+ */
+export function budgetPeriod(
+  budget: Budget,
+  date: string,
+): DateRange | undefined {
+  if (budget.period === "monthly") {
+    return { startDate: startOfMonth(date), endDate: endOfMonth(date) };
+  }
+  if (
+    !budget.startDate ||
+    !budget.endDate ||
+    date < budget.startDate ||
+    date > budget.endDate
+  ) {
+    return undefined;
+  }
+  return { startDate: budget.startDate, endDate: budget.endDate };
+}
+
+/**
+ * Compares spending so far in a budget period with the budget
+ * The projection assumes spending continues at the average daily rate of the
+ * days elapsed so far.
+ * @param asOf - Last day included in `spent`, within the period
+ * @param spent - Expense in the category from the start of the period to asOf
+ */
+export function trackBudget(
+  budget: Budget,
+  period: DateRange,
+  asOf: string,
+  spent: number,
+  serverBudget?: number,
+): BudgetStatus {
+  const daysElapsed = daysBetween(period.startDate, asOf) + 1;
+  const daysInPeriod = daysBetween(period.startDate, period.endDate) + 1;
+  const projectedSpend = roundAmount((spent / daysElapsed) * daysInPeriod);
+
+  return {
+    id: budget.id,
+    category: budget.category,
+    period: budget.period,
+    startDate: period.startDate,
+    endDate: period.endDate,
+    amount: budget.amount,
+    spent: roundAmount(spent),
+    remaining: roundAmount(budget.amount - spent),
+    percentUsed: Math.round((spent / budget.amount) * 1000) / 10,
+    daysElapsed,
+    daysInPeriod,
+    projectedSpend,
+    projectedOverspend: roundAmount(
+      Math.max(0, projectedSpend - budget.amount),
+    ),
+    status:
+      spent > budget.amount
+        ? "over"
+        : projectedSpend > budget.amount
+          ? "at_risk"
+          : "on_track",
+    serverBudget,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * In-process reference data cache for the Money Manager MCP server
+ * Holds init data, assets and cards so repeated tool calls do not re-fetch
+ * them from the server
+ */
+
+/**
+ * Default time-to-live for cached entries (5 minutes)
+ */
+export const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Keys of the reference data held in the cache
+ */
+export type ReferenceDataKey = "initData" | "assets" | "cards";
+
+/**
+ * Cache options (mirrors the `cache` section of the configuration)
+ */
+export interface ReferenceCacheOptions {
+  enabled: boolean;
+  ttlMs: number;
+}
+
+/**
+ * A cached entry
+ * The pending promise is stored so concurrent callers share one request.
+ */
+interface CacheEntry {
+  value: Promise<unknown>;
+  expiresAt: number;
+}
+
+/**
+ * Reference data cache with a fixed time-to-live
+ */
+export class ReferenceCache {
+  private entries = new Map<string, CacheEntry>();
+  private options: ReferenceCacheOptions;
+
+  constructor(options: ReferenceCacheOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Returns the cached value for a key, loading it when missing or expired
+   * @param key - Reference data key
+   * @param loader - Fetches the value from the server
+   * @param variant - Optional discriminator (e.g. money book ID)
+   */
+  async getOrLoad<T>(
+    key: ReferenceDataKey,
+    loader: () => Promise<T>,
+    variant?: string,
+  ): Promise<T> {
+    if (!this.options.enabled) {
+      return loader();
+    }
+
+    const cacheKey = variant ? `${key}:${variant}` : key;
+    const existing = this.entries.get(cacheKey);
+    if (existing && existing.expiresAt > Date.now()) {
+      return existing.value as Promise<T>;
+    }
+
+    const value = loader();
+    this.entries.set(cacheKey, {
+      value,
+      expiresAt: Date.now() + this.options.ttlMs,
+    });
+
+    // Failed loads must not be served from the cache
+    value.catch(() => {
+      if (this.entries.get(cacheKey)?.value === value) {
+        this.entries.delete(cacheKey);
+      }
+    });
+
+    return value;
+  }
+
+  /**
+   * Removes cached entries
+   * @param key - Key to remove (all variants); removes everything if omitted
+   */
+  invalidate(key?: ReferenceDataKey): void {
+    if (!key) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const cacheKey of [...this.entries.keys()]) {
+      if (cacheKey === key || cacheKey.startsWith(`${key}:`)) {
+        this.entries.delete(cacheKey);
+      }
+    }
+  }
+
+  /**
+   * Gets the configured time-to-live in milliseconds
+   */
+  get ttlMs(): number {
+    return this.options.ttlMs;
+  }
+
+  /**
+   * Whether caching is enabled
+   */
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+}
+
+/**
+ * Shared cache instance used by the tool handlers
+ */
+let referenceCache: ReferenceCache | null = null;
+
+/**
+ * Configures the shared reference cache, replacing any existing instance
+ */
+export function configureReferenceCache(
+  options?: Partial<ReferenceCacheOptions>,
+): ReferenceCache {
+  referenceCache = new ReferenceCache({
+    enabled: options?.enabled ?? true,
+    ttlMs: options?.ttlMs ?? DEFAULT_CACHE_TTL_MS,
+  });
+  return referenceCache;
+}
+
+/**
+ * Gets the shared reference cache, creating one with defaults if needed
+ */
+export function getReferenceCache(): ReferenceCache {
+  return referenceCache ?? configureReferenceCache();
+}
+
+/**
+ * Resets the shared reference cache (useful for testing)
+ */
+export function resetReferenceCache(): void {
+  referenceCache = null;
+}
@@ -0,0 +1,166 @@
+/**
+ * Auto-categorization for the Money Manager MCP server
+ * Picks a category for a new transaction from user-defined rules or, failing
+ * that, from the categories used for similar descriptions in the past
+ */
+
+import { normalizeName } from "../resolver/index.js";
+import type { CategoryRule, Transaction } from "../types/index.js";
+
+/**
+ * The fields of a new transaction that rules are matched against
+ */
+export interface CategorizationInput {
+  mbContent?: string;
+  mbCash: number;
+  inOutCode: string;
+  assetId?: string;
+  assetName?: string;
+}
+
+/**
+ * A category picked for a transaction
+ * Rules suggest names; history suggests the IDs stored on past transactions.
+ */
+export interface CategorySuggestion {
+  source: "rule" | "history";
+  mcid?: string;
+  mbCategory: string;
+  mcscid?: string;
+  subCategory?: string;
+  /** Number of similar past transactions that used the category (history) */
+  matches?: number;
+}
+
+/**
+ * Minimum word overlap (Jaccard index) for two descriptions to be similar
+ */
+const MIN_DESCRIPTION_OVERLAP = 0.5;
+
+/**
+ * Checks whether a rule applies to a transaction
+ * Every condition present on the rule must hold; text conditions are
+ * case-insensitive and the asset may be given by ID or by name.
+ */
+function ruleMatches(rule: CategoryRule, input: CategorizationInput): boolean {
+  const text = input.mbContent ?? "";
+
+  if (
+    rule.keyword !== undefined &&
+    !text.toLowerCase().includes(rule.keyword.toLowerCase())
+  ) {
+    return false;
+  }
+  if (rule.pattern !== undefined && !new RegExp(rule.pattern, "i").test(text)) {
+    return false;
+  }
+  if (rule.inOutCode !== undefined && rule.inOutCode !== input.inOutCode) {
+    return false;
+  }
+  if (rule.minAmount !== undefined && input.mbCash < rule.minAmount) {
+    return false;
+  }
+  if (rule.maxAmount !== undefined && input.mbCash > rule.maxAmount) {
+    return false;
+  }
+  if (rule.asset !== undefined) {
+    const asset = normalizeName(rule.asset);
+    return (
+      rule.asset === input.assetId ||
+      (!!input.assetName && normalizeName(input.assetName) === asset)
+    );
+  }
+  return true;
+}
+
+/**
+ * Finds the first rule that applies to a transaction
+ */
+export function findCategoryRule(
+  rules: CategoryRule[],
+  input: CategorizationInput,
+): CategoryRule | undefined {
+  return rules.find((rule) => ruleMatches(rule, input));
+}
+
+/**
+ * Splits a description into comparable words
+ * Numbers (card numbers, dates, references) are dropped.
+ */
+function descriptionWords(text: string): Set<string> {
+  return new Set(
+    normalizeName(text)
+      .split(" ")
+      .filter((word) => word.length > 1 && !/^\d+$/.test(word)),
+  );
+}
+
+/**
+ * Checks whether two descriptions share enough words to be considered similar
+ */
+export function isSimilarDescription(a: string, b: string): boolean {
+  const wordsA = descriptionWords(a);
+  const wordsB = descriptionWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return false;
+  }
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const union = wordsA.size + wordsB.size - shared;
+  return shared / union >= MIN_DESCRIPTION_OVERLAP;
+}
+
+/**
+ * Suggests the category most often used for similar descriptions
+ * Only past transactions of the same type are considered; ties go to the
+ * category used most recently.
+ */
+export function suggestCategoryFromHistory(
+  input: CategorizationInput,
+  history: Transaction[],
+): CategorySuggestion | undefined {
+  if (!input.mbContent) {
+    return undefined;
+  }
+
+  const tally = new Map<
+    string,
+    { transaction: Transaction; count: number; latest: string }
+  >();
+  for (const transaction of history) {
+    if (
+      transaction.inOutCode !== input.inOutCode ||
+      !transaction.mcid ||
+      !isSimilarDescription(input.mbContent, transaction.mbContent ?? "")
+    ) {
+      continue;
+    }
+
+    const key = `${transaction.mcid}|${transaction.mcscid ?? ""}`;
+    const entry = tally.get(key);
+    if (!entry) {
+      tally.set(key, { transaction, count: 1, latest: transaction.mbDate });
+    } else {
+      entry.count++;
+      if (transaction.mbDate > entry.latest) {
+        entry.latest = transaction.mbDate;
+      }
+    }
+  }
+
+  const [best] = [...tally.values()].sort(
+    (a, b) => b.count - a.count || b.latest.localeCompare(a.latest),
+  );
+  if (!best) {
+    return undefined;
+  }
+
+  return {
+    source: "history",
+    mcid: best.transaction.mcid,
+    mbCategory: best.transaction.mbCategory,
+    mcscid: best.transaction.mcscid || undefined,
+    subCategory: best.transaction.subCategory || undefined,
+    matches: best.count,
+  };
+}
@@ -6,14 +6,41 @@ import * as path from "path";
 import { parseStringPromise } from "xml2js";
 
 import type { Config } from "../config/index.js";
+import type { DryRunRequest } from "../types/index.js";
 import {
   NetworkError,
   APIError,
   SessionError,
+  ReadOnlyError,
   wrapError,
   type McpError,
 } from "../errors/index.js";
 
+/**
+ * Per-request options
+ */
+export interface RequestOptions {
+  /** Overrides the configured retry count for this request */
+  retryCount?: number;
+}
+
+/**
+ * Endpoints that change data on the server
+ */
+export const MUTATING_ENDPOINTS: ReadonlySet<string> = new Set([
+  "/create",
+  "/update",
+  "/delete",
+  "/assetAdd",
+  "/assetModify",
+  "/removeAsset",
+  "/addAssetCard",
+  "/modifyCard",
+  "/moveAsset",
+  "/modifyMoveAsset",
+  "/uploadSqlFile",
+]);
+
 /**
  * HTTP client with cookie/session management for Money Manager API
  */
@@ -22,6 +49,8 @@ export class HttpClient {
   private cookieJar: CookieJar;
   private config: Config;
   private retryCount: number;
+  /** Write requests recorded instead of sent; only set on dry-run clients */
+  private dryRunRequests?: DryRunRequest[];
 
   constructor(config: Config) {
     this.config = config;
@@ -111,16 +140,19 @@ export class HttpClient {
   async getXml<T>(
     endpoint: string,
     params?: Record<string, string | number | undefined>,
+    options?: RequestOptions,
   ): Promise<T> {
     const filteredParams = this.filterUndefinedParams(params);
-    const response = await this.executeWithRetry<string>(() =>
-      this.client.get<string>(endpoint, {
-        params: filteredParams,
-        responseType: "text",
-        headers: {
-          Accept: "text/xml",
-        },
-      }),
+    const response = await this.executeWithRetry<string>(
+      () =>
+        this.client.get<string>(endpoint, {
+          params: filteredParams,
+          responseType: "text",
+          headers: {
+            Accept: "text/xml",
+          },
+        }),
+      options?.retryCount,
     );
     return this.parseXmlResponse<T>(response.data);
   }
@@ -131,6 +163,11 @@ export class HttpClient {
    * so we need to parse it accordingly.
    */
   async post<T>(endpoint: string, data?: Record<string, unknown>): Promise<T> {
+    this.assertWritable(endpoint);
+    if (this.recordDryRun(endpoint, data)) {
+      return { success: true } as T;
+    }
+
     const formData = this.toFormData(data);
     const response = await this.executeWithRetry<string>(() =>
       this.client.post<string>(endpoint, formData, {
@@ -214,6 +251,10 @@ export class HttpClient {
     if (!fs.existsSync(filePath)) {
       throw new Error(`File not found: ${filePath}`);
     }
+    this.assertWritable(endpoint);
+    if (this.recordDryRun(endpoint, { [fieldName]: filePath })) {
+      return { success: true } as T;
+    }
 
     const FormData = (await import("form-data")).default;
     const formData = new FormData();
@@ -228,6 +269,33 @@ export class HttpClient {
     return response.data;
   }
 
+  /**
+   * Creates a client for a dry run
+   * It shares this client's session and sends read requests as usual, but
+   * records requests to mutating endpoints instead of sending them and
+   * answers them with `{ success: true }`.
+   */
+  forDryRun(): HttpClient {
+    const dryRun = Object.create(HttpClient.prototype) as HttpClient;
+    Object.assign(dryRun, this);
+    dryRun.dryRunRequests = [];
+    return dryRun;
+  }
+
+  /**
+   * Whether this client records write requests instead of sending them
+   */
+  get isDryRun(): boolean {
+    return this.dryRunRequests !== undefined;
+  }
+
+  /**
+   * Returns the write requests recorded by a dry-run client, in order
+   */
+  getDryRunRequests(): DryRunRequest[] {
+    return [...(this.dryRunRequests ?? [])];
+  }
+
   /**
    * Clears the session cookies
    */
@@ -246,8 +314,8 @@ export class HttpClient {
    */
   private async executeWithRetry<T>(
     requestFn: () => Promise<AxiosResponse<T>>,
+    maxRetries: number = this.config.server.retryCount,
   ): Promise<AxiosResponse<T>> {
-    const maxRetries = this.config.server.retryCount;
     let lastError: McpError | undefined;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -424,6 +492,40 @@ export class HttpClient {
     return result;
   }
 
+  /**
+   * Refuses requests to mutating endpoints in read-only mode
+   * @throws {ReadOnlyError} If the server is read-only and the endpoint
+   *   changes data
+   */
+  private assertWritable(endpoint: string): void {
+    if (this.config.access.readOnly && MUTATING_ENDPOINTS.has(endpoint)) {
+      throw ReadOnlyError.requestBlocked(endpoint);
+    }
+  }
+
+  /**
+   * Records a write request on a dry-run client
+   * @returns True if the request was recorded and must not be sent
+   */
+  private recordDryRun(
+    endpoint: string,
+    data?: Record<string, unknown>,
+  ): boolean {
+    if (!this.dryRunRequests || !MUTATING_ENDPOINTS.has(endpoint)) {
+      return false;
+    }
+
+    const payload: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data ?? {})) {
+      if (value !== undefined && value !== null) {
+        payload[key] = value;
+      }
+    }
+    this.dryRunRequests.push({ method: "POST", endpoint, payload });
+    this.log("debug", `Dry run: not sending POST ${endpoint}`);
+    return true;
+  }
+
   /**
    * Converts an object to URL-encoded form data
    */
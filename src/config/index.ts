@@ -6,6 +6,59 @@ import { config as dotenvConfig } from "dotenv";
 // Load environment variables from .env file
 dotenvConfig();
 
+/**
+ * CSV column reference: a header name or a 0-based position
+ */
+const CsvColumnSchema = z.union([z.string().min(1), z.number().int().min(0)]);
+
+/**
+ * Auto-categorization rule schema
+ */
+const CategoryRuleSchema = z.object({
+  keyword: z.string().min(1).optional(),
+  pattern: z.string().min(1).optional(),
+  minAmount: z.number().min(0).optional(),
+  maxAmount: z.number().min(0).optional(),
+  asset: z.string().min(1).optional(),
+  inOutCode: z.enum(["0", "1"]).optional(),
+  category: z.string().min(1),
+  subCategory: z.string().optional(),
+});
+
+/**
+ * CSV import mapping profile schema
+ */
+export const CsvImportProfileSchema = z
+  .object({
+    delimiter: z.string().length(1).default(","),
+    hasHeader: z.boolean().default(true),
+    skipRows: z.number().int().min(0).default(0),
+    dateColumn: CsvColumnSchema,
+    dateFormat: z.string().min(1).default("YYYY-MM-DD"),
+    amountColumn: CsvColumnSchema.optional(),
+    amountSign: z
+      .enum(["negativeIsExpense", "positiveIsExpense"])
+      .default("negativeIsExpense"),
+    debitColumn: CsvColumnSchema.optional(),
+    creditColumn: CsvColumnSchema.optional(),
+    decimalSeparator: z.enum([".", ","]).default("."),
+    descriptionColumn: CsvColumnSchema,
+    notesColumn: CsvColumnSchema.optional(),
+    assetId: z.string().optional(),
+    assetName: z.string().optional(),
+    payType: z.string().optional(),
+    rules: z.array(CategoryRuleSchema).default([]),
+    defaultIncomeCategory: z.string().optional(),
+    defaultExpenseCategory: z.string().optional(),
+  })
+  .refine(
+    (profile) =>
+      profile.amountColumn !== undefined ||
+      profile.debitColumn !== undefined ||
+      profile.creditColumn !== undefined,
+    { message: "A profile needs amountColumn or debitColumn/creditColumn" },
+  );
+
 /**
  * Configuration validation schema using Zod
  */
@@ -34,6 +87,82 @@ export const ConfigSchema = z.object({
       dateFormat: z.string().default("YYYY-MM-DD"),
     })
     .optional(),
+  cache: z
+    .object({
+      enabled: z.boolean().default(true),
+      ttlMs: z.number().min(0).max(86400000).default(300000),
+    })
+    .optional(),
+  transactionList: z
+    .object({
+      chunkMonths: z.number().int().min(0).max(12).default(1),
+      concurrency: z.number().int().min(1).max(8).default(2),
+    })
+    .optional(),
+  imports: z
+    .object({
+      csvProfiles: z.record(CsvImportProfileSchema).default({}),
+    })
+    .optional(),
+  categorization: z
+    .object({
+      rules: z.array(CategoryRuleSchema).default([]),
+      learnFromHistory: z.boolean().default(true),
+      historyMonths: z.number().int().min(1).max(24).default(6),
+    })
+    .optional(),
+  duplicates: z
+    .object({
+      policy: z.enum(["off", "warn", "block", "skip"]).default("warn"),
+      windowDays: z.number().int().min(0).max(31).default(1),
+    })
+    .optional(),
+  storage: z
+    .object({
+      dataDir: z.string().min(1).default(".money-manager-data"),
+    })
+    .optional(),
+  journal: z
+    .object({
+      enabled: z.boolean().default(true),
+      lookbackMonths: z.number().int().min(1).max(120).default(12),
+    })
+    .optional(),
+  confirmations: z
+    .object({
+      enabled: z.boolean().default(true),
+      ttlMs: z.number().int().min(10000).max(3600000).default(300000),
+    })
+    .optional(),
+  backup: z
+    .object({
+      enabled: z.boolean().default(false),
+      requiredTables: z
+        .array(z.string().min(1))
+        .default(["INOUTCASH", "ASSETS", "ZCATEGORY"]),
+      directory: z.string().min(1).default("backups"),
+      schedule: z.string().min(1).default("0 2 * * *"),
+      retention: z
+        .object({
+          daily: z.number().int().min(1).default(7),
+          weekly: z.number().int().min(0).default(4),
+          monthly: z.number().int().min(0).default(12),
+        })
+        .default({}),
+    })
+    .optional(),
+  offline: z
+    .object({
+      file: z.string().min(1).optional(),
+      fallback: z.boolean().default(true),
+    })
+    .optional(),
+  dryRun: z.boolean().default(false),
+  access: z
+    .object({
+      readOnly: z.boolean().default(false),
+    })
+    .default({}),
 });
 
 /**
@@ -62,6 +191,55 @@ const DEFAULT_CONFIG: Partial<Config> = {
   defaults: {
     dateFormat: "YYYY-MM-DD",
   },
+  cache: {
+    enabled: true,
+    ttlMs: 300000,
+  },
+  transactionList: {
+    chunkMonths: 1,
+    concurrency: 2,
+  },
+  imports: {
+    csvProfiles: {},
+  },
+  categorization: {
+    rules: [],
+    learnFromHistory: true,
+    historyMonths: 6,
+  },
+  duplicates: {
+    policy: "warn",
+    windowDays: 1,
+  },
+  storage: {
+    dataDir: ".money-manager-data",
+  },
+  journal: {
+    enabled: true,
+    lookbackMonths: 12,
+  },
+  confirmations: {
+    enabled: true,
+    ttlMs: 300000,
+  },
+  backup: {
+    enabled: false,
+    requiredTables: ["INOUTCASH", "ASSETS", "ZCATEGORY"],
+    directory: "backups",
+    schedule: "0 2 * * *",
+    retention: {
+      daily: 7,
+      weekly: 4,
+      monthly: 12,
+    },
+  },
+  offline: {
+    fallback: true,
+  },
+  dryRun: false,
+  access: {
+    readOnly: false,
+  },
 };
 
 /**
@@ -91,6 +269,19 @@ function loadConfigFile(): Partial<Config> {
   return {};
 }
 
+/**
+ * Reads an integer environment variable
+ * @throws Error naming the variable if it is not an integer
+ */
+function parseIntegerEnv(name: string): number {
+  const raw = process.env[name] ?? "";
+  const value = Number(raw.trim());
+  if (raw.trim() === "" || !Number.isInteger(value)) {
+    throw new Error(`${name} must be an integer, got "${raw}"`);
+  }
+  return value;
+}
+
 /**
  * Loads configuration from environment variables
  */
@@ -115,7 +306,7 @@ function loadEnvConfig(): Partial<Config> {
         envConfig.server?.baseUrl ??
         DEFAULT_CONFIG.server?.baseUrl ??
         "http://192.168.1.100:8888",
-      timeout: parseInt(process.env["MONEY_MANAGER_TIMEOUT"], 10),
+      timeout: parseIntegerEnv("MONEY_MANAGER_TIMEOUT"),
       retryCount: DEFAULT_CONFIG.server?.retryCount ?? 3,
       retryDelay: DEFAULT_CONFIG.server?.retryDelay ?? 1000,
     };
@@ -130,7 +321,7 @@ function loadEnvConfig(): Partial<Config> {
         "http://192.168.1.100:8888",
       timeout:
         envConfig.server?.timeout ?? DEFAULT_CONFIG.server?.timeout ?? 30000,
-      retryCount: parseInt(process.env["MONEY_MANAGER_RETRY_COUNT"], 10),
+      retryCount: parseIntegerEnv("MONEY_MANAGER_RETRY_COUNT"),
       retryDelay: DEFAULT_CONFIG.server?.retryDelay ?? 1000,
     };
   }
@@ -158,6 +349,28 @@ function loadEnvConfig(): Partial<Config> {
     };
   }
 
+  // Cache configuration from environment
+  if (process.env["MONEY_MANAGER_CACHE_TTL"]) {
+    const ttlMs = parseIntegerEnv("MONEY_MANAGER_CACHE_TTL");
+    envConfig.cache = {
+      ...envConfig.cache,
+      enabled: ttlMs > 0,
+      ttlMs,
+    };
+  }
+
+  // Dry-run mode from environment
+  if (process.env["MONEY_MANAGER_DRY_RUN"]) {
+    envConfig.dryRun = process.env["MONEY_MANAGER_DRY_RUN"] === "true";
+  }
+
+  // Read-only mode from environment
+  if (process.env["MONEY_MANAGER_READ_ONLY"]) {
+    envConfig.access = {
+      readOnly: process.env["MONEY_MANAGER_READ_ONLY"] === "true",
+    };
+  }
+
   return envConfig;
 }
 
@@ -281,6 +494,70 @@ export function createSampleConfigFile(outputPath?: string): void {
       mbid: "default",
       dateFormat: "YYYY-MM-DD",
     },
+    cache: {
+      enabled: true,
+      ttlMs: 300000,
+    },
+    transactionList: {
+      chunkMonths: 1,
+      concurrency: 2,
+    },
+    imports: {
+      csvProfiles: {
+        checking: {
+          dateColumn: "Date",
+          dateFormat: "DD/MM/YYYY",
+          amountColumn: "Amount",
+          amountSign: "negativeIsExpense",
+          descriptionColumn: "Description",
+          assetName: "Checking",
+          rules: [{ keyword: "grocery", category: "Food" }],
+          defaultExpenseCategory: "Other",
+          defaultIncomeCategory: "Other",
+        },
+      },
+    },
+    categorization: {
+      rules: [
+        { keyword: "starbucks", category: "Food", subCategory: "Coffee" },
+        { pattern: "^(uber|lyft)\\b", maxAmount: 100, category: "Transport" },
+      ],
+      learnFromHistory: true,
+      historyMonths: 6,
+    },
+    duplicates: {
+      policy: "warn",
+      windowDays: 1,
+    },
+    storage: {
+      dataDir: ".money-manager-data",
+    },
+    journal: {
+      enabled: true,
+      lookbackMonths: 12,
+    },
+    confirmations: {
+      enabled: true,
+      ttlMs: 300000,
+    },
+    backup: {
+      enabled: false,
+      requiredTables: ["INOUTCASH", "ASSETS", "ZCATEGORY"],
+      directory: "backups",
+      schedule: "0 2 * * *",
+      retention: {
+        daily: 7,
+        weekly: 4,
+        monthly: 12,
+      },
+    },
+    offline: {
+      fallback: true,
+    },
+    dryRun: false,
+    access: {
+      readOnly: false,
+    },
   };
 
   const filePath = outputPath ?? path.resolve(process.cwd(), CONFIG_FILE_NAME);
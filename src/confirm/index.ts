@@ -0,0 +1,114 @@
+/**
+ * Confirmation tokens for the Money Manager MCP server
+ * Destructive tools first return a summary and a short-lived token; the
+ * change is only made when the same call is repeated with that token.
+ * Tokens are held in memory, so they do not survive a restart.
+ */
+
+import { randomBytes } from "crypto";
+import { ValidationError } from "../errors/index.js";
+
+/**
+ * Default lifetime of a confirmation token (5 minutes)
+ */
+export const DEFAULT_CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * An issued token
+ */
+interface PendingConfirmation {
+  /** Tool and target the token was issued for, e.g. "asset_delete:a1" */
+  subject: string;
+  expiresAt: number;
+  /** What the tool looked up to build its summary */
+  context?: unknown;
+}
+
+/**
+ * Tokens that have been issued and not used yet
+ */
+const pending = new Map<string, PendingConfirmation>();
+
+/**
+ * Drops expired tokens
+ */
+function pruneExpired(now: number): void {
+  for (const [token, confirmation] of pending) {
+    if (confirmation.expiresAt <= now) {
+      pending.delete(token);
+    }
+  }
+}
+
+/**
+ * Issues a token that confirms one call
+ * @param subject - Tool and target of the call; the token only confirms a
+ *   call with the same subject
+ * @param ttlMs - How long the token stays valid
+ * @param context - Kept with the token for the confirmed call
+ */
+export function issueConfirmationToken(
+  subject: string,
+  ttlMs: number = DEFAULT_CONFIRMATION_TTL_MS,
+  context?: unknown,
+): { token: string; expiresAt: string } {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const token = randomBytes(4).toString("hex");
+  const expiresAt = now + ttlMs;
+  pending.set(token, { subject, expiresAt, context });
+
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Checks a token and uses it up
+ * @param consume - Set to false to check the token without using it up
+ *   (dry runs)
+ * @throws {ValidationError} If the token is unknown, expired or was issued
+ *   for a different call
+ */
+export function redeemConfirmationToken(
+  token: string,
+  subject: string,
+  consume: boolean = true,
+): void {
+  pruneExpired(Date.now());
+
+  const confirmation = pending.get(token);
+  if (!confirmation) {
+    throw ValidationError.invalidConfirmation(
+      "it is unknown or has expired; call the tool again without a token to get a new one",
+    );
+  }
+  if (confirmation.subject !== subject) {
+    throw ValidationError.invalidConfirmation(
+      "it was issued for a different call; the arguments must match the call that returned it",
+    );
+  }
+
+  if (consume) {
+    pending.delete(token);
+  }
+}
+
+/**
+ * Returns the context kept with a token without using it up
+ * @returns The context, or undefined if the token is unknown, expired or was
+ *   issued for a different call
+ */
+export function getConfirmationContext<T>(
+  token: string,
+  subject: string,
+): T | undefined {
+  const confirmation = pending.get(token);
+  if (
+    !confirmation ||
+    confirmation.subject !== subject ||
+    confirmation.expiresAt <= Date.now()
+  ) {
+    return undefined;
+  }
+  return confirmation.context as T | undefined;
+}
@@ -0,0 +1,100 @@
+/**
+ * Duplicate transaction detection for the Money Manager MCP server
+ * Two transactions are considered duplicates when they have the same type,
+ * amount, asset, category and description, and fall within a few days of
+ * each other
+ */
+
+import { normalizeName } from "../resolver/index.js";
+import type { Transaction } from "../types/index.js";
+import { daysBetween } from "../utils/index.js";
+
+/**
+ * What to do when a new transaction looks like an existing one
+ * - off: do not check
+ * - warn: create it and report the possible duplicates
+ * - block: refuse to create it
+ * - skip: do not create it and report the existing transaction instead
+ */
+export type DuplicatePolicy = "off" | "warn" | "block" | "skip";
+
+/**
+ * Fields compared when looking for duplicates
+ */
+export type DuplicateCandidate = Pick<
+  Transaction,
+  "mbDate" | "assetId" | "mcid" | "mbCash" | "inOutCode" | "mbContent"
+>;
+
+/**
+ * Builds the comparison key of a transaction (everything except the date)
+ */
+function duplicateKey(transaction: DuplicateCandidate): string {
+  return [
+    transaction.inOutCode,
+    transaction.assetId,
+    transaction.mcid,
+    Math.round(transaction.mbCash * 100),
+    normalizeName(transaction.mbContent ?? ""),
+  ].join("|");
+}
+
+/**
+ * Finds existing transactions that a candidate would duplicate
+ * @param windowDays - Maximum number of days between the two dates
+ */
+export function findDuplicatesOf<T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  existing: T[],
+  windowDays: number,
+): T[] {
+  const key = duplicateKey(candidate);
+  return existing.filter(
+    (transaction) =>
+      duplicateKey(transaction) === key &&
+      Math.abs(daysBetween(candidate.mbDate, transaction.mbDate)) <= windowDays,
+  );
+}
+
+/**
+ * Groups transactions that duplicate each other
+ * Transactions are chained into a group while each is within `windowDays`
+ * of the previous one; only groups with two or more entries are returned.
+ */
+export function findDuplicateGroups<T extends DuplicateCandidate>(
+  transactions: T[],
+  windowDays: number,
+): T[][] {
+  const byKey = new Map<string, T[]>();
+  for (const transaction of transactions) {
+    const key = duplicateKey(transaction);
+    byKey.set(key, [...(byKey.get(key) ?? []), transaction]);
+  }
+
+  const groups: T[][] = [];
+  for (const candidates of byKey.values()) {
+    candidates.sort((a, b) => a.mbDate.localeCompare(b.mbDate));
+
+    let group: T[] = [];
+    for (const transaction of candidates) {
+      const previous = group[group.length - 1];
+      if (
+        previous &&
+        daysBetween(previous.mbDate, transaction.mbDate) > windowDays
+      ) {
+        if (group.length > 1) {
+          groups.push(group);
+        }
+        group = [];
+      }
+      group.push(transaction);
+    }
+    if (group.length > 1) {
+      groups.push(group);
+    }
+  }
+
+  return groups.sort((a, b) =>
+    (a[0]?.mbDate ?? "").localeCompare(b[0]?.mbDate ?? ""),
+  );
+}
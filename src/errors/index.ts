@@ -7,6 +7,7 @@ export enum ErrorCategory {
   VALIDATION = "VALIDATION",
   SESSION = "SESSION",
   FILE = "FILE",
+  ACCESS = "ACCESS",
   INTERNAL = "INTERNAL",
 }
 
@@ -235,6 +236,67 @@ export class ValidationError extends McpError {
     );
   }
 
+  static ambiguousMatch(
+    field: string,
+    value: string,
+    candidates: string[],
+  ): ValidationError {
+    return new ValidationError(
+      `Ambiguous value for '${field}': "${value}" matches ${candidates.length} entries (${candidates.join(", ")}). Use a more specific name or pass the ID.`,
+      field,
+      `one of: ${candidates.join(", ")}`,
+      value,
+    );
+  }
+
+  static noMatch(
+    field: string,
+    value: string,
+    available: string[],
+  ): ValidationError {
+    return new ValidationError(
+      `No match for '${field}': "${value}" does not match any known entry`,
+      field,
+      available.length > 0 ? `one of: ${available.join(", ")}` : undefined,
+      value,
+    );
+  }
+
+  static uncategorized(description?: string): ValidationError {
+    return new ValidationError(
+      `Could not pick a category${description ? ` for "${description}"` : ""}: no categorization rule or similar past transaction matched. Pass mcid or mbCategory.`,
+      "mbCategory",
+      "a category ID or name",
+      undefined,
+    );
+  }
+
+  static cannotUndo(operationId: string, reason: string): ValidationError {
+    return new ValidationError(
+      `Operation '${operationId}' cannot be undone: ${reason}`,
+      "id",
+      "an operation that has not been undone yet",
+      operationId,
+    );
+  }
+
+  static invalidConfirmation(reason: string): ValidationError {
+    return new ValidationError(
+      `Confirmation token is not valid: ${reason}`,
+      "confirmationToken",
+      "a token returned by the same call within its lifetime",
+    );
+  }
+
+  static duplicateTransaction(existingIds: string[]): ValidationError {
+    return new ValidationError(
+      `Possible duplicate of existing transaction ${existingIds.join(", ")}. Pass duplicatePolicy "warn" or "off" to create it anyway.`,
+      "duplicatePolicy",
+      "a transaction that does not match an existing one",
+      existingIds,
+    );
+  }
+
   static fromZodError(zodError: {
     errors: Array<{ path: (string | number)[]; message: string }>;
   }): ValidationError {
@@ -313,6 +375,14 @@ export class FileError extends McpError {
     });
   }
 
+  static invalidDatabase(filePath: string, reason: string): FileError {
+    return new FileError(
+      `'${filePath}' is not a valid Money Manager database: ${reason}`,
+      filePath,
+      { reason, operation: "verify" },
+    );
+  }
+
   static permissionDenied(filePath: string): FileError {
     return new FileError(
       `Permission denied for file: '${filePath}'`,
@@ -324,6 +394,47 @@ export class FileError extends McpError {
   }
 }
 
+/**
+ * Access errors (changes refused in read-only mode)
+ */
+export class ReadOnlyError extends McpError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super("READ_ONLY", ErrorCategory.ACCESS, message, false, details);
+    this.name = "ReadOnlyError";
+  }
+
+  static toolDisabled(toolName: string): ReadOnlyError {
+    return new ReadOnlyError(
+      `Tool '${toolName}' changes data and is disabled because the server is in read-only mode`,
+      { toolName },
+    );
+  }
+
+  static requestBlocked(endpoint: string): ReadOnlyError {
+    return new ReadOnlyError(
+      `Request to ${endpoint} was blocked because the server is in read-only mode`,
+      { endpoint },
+    );
+  }
+}
+
+/**
+ * Access errors (tools turned off in the configuration)
+ */
+export class AccessError extends McpError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super("TOOL_DISABLED", ErrorCategory.ACCESS, message, false, details);
+    this.name = "AccessError";
+  }
+
+  static toolDisabled(toolName: string, setting: string): AccessError {
+    return new AccessError(
+      `Tool '${toolName}' is disabled. Set ${setting} to true in the configuration to enable it`,
+      { toolName, setting },
+    );
+  }
+}
+
 /**
  * Internal errors (unexpected errors)
  */
@@ -0,0 +1,317 @@
+/**
+ * CSV statement parsing for the Money Manager MCP server
+ * Turns bank CSV exports into transaction drafts using a mapping profile
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type { CsvColumn, CsvImportProfile } from "../types/index.js";
+
+/**
+ * A statement row mapped through a profile
+ * `mbCash` is always positive; the sign is carried by `inOutCode`.
+ */
+export interface CsvStatementRow {
+  /** 1-based line number in the file */
+  line: number;
+  mbDate: string;
+  mbCash: number;
+  inOutCode: "0" | "1";
+  mbContent: string;
+  mbDetailContent?: string;
+}
+
+/**
+ * A row that could not be mapped
+ */
+export interface CsvStatementError {
+  line: number;
+  error: string;
+}
+
+/**
+ * Month names accepted by the MMM date token
+ */
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+/**
+ * Parses CSV text into records
+ * Supports quoted fields with embedded delimiters, quotes and line breaks.
+ * Each record carries the line number it started on.
+ */
+export function parseCsv(
+  text: string,
+  delimiter: string = ",",
+): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  const endRecord = (): void => {
+    fields.push(field);
+    if (fields.some((f) => f.trim() !== "")) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      quoted = true;
+      field = "";
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Parses a date using a format made of YYYY, YY, MM, M, MMM, DD and D tokens
+ * @returns The date as YYYY-MM-DD, or undefined if it does not match
+ */
+export function parseDateWithFormat(
+  value: string,
+  format: string,
+): string | undefined {
+  const tokens: string[] = [];
+  const pattern = format
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/YYYY|YY|MMM|MM|M|DD|D/g, (token) => {
+      tokens.push(token);
+      if (token === "YYYY") return "(\\d{4})";
+      if (token === "MMM") return "([A-Za-z]{3})";
+      if (token === "YY" || token === "MM" || token === "DD") {
+        return "(\\d{2})";
+      }
+      return "(\\d{1,2})";
+    });
+
+  const match = new RegExp(`^${pattern}$`).exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  let year = 0;
+  let month = 0;
+  let day = 0;
+  tokens.forEach((token, index) => {
+    const part = match[index + 1] ?? "";
+    if (token === "YYYY") year = Number(part);
+    else if (token === "YY") year = 2000 + Number(part);
+    else if (token === "MMM") {
+      month = MONTH_NAMES.indexOf(part.toLowerCase()) + 1;
+    } else if (token.startsWith("M")) month = Number(part);
+    else day = Number(part);
+  });
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    month < 1 ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return undefined;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses an amount, ignoring currency symbols and thousands separators
+ * Parentheses and leading or trailing minus signs mark negative amounts.
+ * @returns The signed amount, or undefined if the value is empty or invalid
+ */
+export function parseAmount(
+  value: string,
+  decimalSeparator: "." | "," = ".",
+): number | undefined {
+  let text = value.trim();
+  if (text === "") {
+    return undefined;
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.startsWith("-") || text.endsWith("-")) {
+    negative = !negative;
+  }
+
+  const thousands = decimalSeparator === "." ? "," : ".";
+  const digits = text
+    .split(thousands)
+    .join("")
+    .replace(decimalSeparator, ".")
+    .replace(/[^\d.]/g, "");
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(digits)) {
+    return undefined;
+  }
+
+  const amount = Number(digits);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Finds the index of a profile column in a record
+ * Numbers are 0-based positions; strings are header names (case-insensitive).
+ */
+function columnIndex(
+  column: CsvColumn,
+  header: string[] | undefined,
+): number | undefined {
+  if (typeof column === "number") {
+    return column;
+  }
+  const index = (header ?? []).findIndex(
+    (name) => name.trim().toLowerCase() === column.trim().toLowerCase(),
+  );
+  return index >= 0 ? index : undefined;
+}
+
+/**
+ * Reads a CSV statement and maps its rows through a profile
+ * @throws {ValidationError} If a mapped column is missing from the header
+ */
+export function readCsvStatement(
+  text: string,
+  profile: CsvImportProfile,
+): (CsvStatementRow | CsvStatementError)[] {
+  const records = parseCsv(text, profile.delimiter).slice(profile.skipRows);
+  const header = profile.hasHeader ? records.shift()?.fields : undefined;
+
+  const resolveColumn = (
+    name: string,
+    column: CsvColumn | undefined,
+  ): number | undefined => {
+    if (column === undefined) {
+      return undefined;
+    }
+    const index = columnIndex(column, header);
+    if (index === undefined) {
+      throw ValidationError.invalidField(
+        `${name}Column`,
+        `a column from the CSV header (${(header ?? []).join(", ")})`,
+        column,
+      );
+    }
+    return index;
+  };
+
+  const dateIndex = resolveColumn("date", profile.dateColumn);
+  const descriptionIndex = resolveColumn(
+    "description",
+    profile.descriptionColumn,
+  );
+  const notesIndex = resolveColumn("notes", profile.notesColumn);
+  const amountIndex = resolveColumn("amount", profile.amountColumn);
+  const debitIndex = resolveColumn("debit", profile.debitColumn);
+  const creditIndex = resolveColumn("credit", profile.creditColumn);
+
+  const cell = (fields: string[], index: number | undefined): string =>
+    index === undefined ? "" : (fields[index] ?? "").trim();
+
+  return records.map(({ line, fields }) => {
+    const rawDate = cell(fields, dateIndex);
+    const mbDate = parseDateWithFormat(rawDate, profile.dateFormat);
+    if (!mbDate) {
+      return {
+        line,
+        error: `Date "${rawDate}" does not match format ${profile.dateFormat}`,
+      };
+    }
+
+    // Signed amount where negative means money going out
+    let amount: number | undefined;
+    if (amountIndex !== undefined) {
+      const parsed = parseAmount(
+        cell(fields, amountIndex),
+        profile.decimalSeparator,
+      );
+      amount =
+        parsed === undefined
+          ? undefined
+          : profile.amountSign === "positiveIsExpense"
+            ? -parsed
+            : parsed;
+    } else {
+      const debit = parseAmount(
+        cell(fields, debitIndex),
+        profile.decimalSeparator,
+      );
+      const credit = parseAmount(
+        cell(fields, creditIndex),
+        profile.decimalSeparator,
+      );
+      if (debit !== undefined || credit !== undefined) {
+        amount = Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+      }
+    }
+
+    if (amount === undefined || amount === 0) {
+      return { line, error: "Row has no amount" };
+    }
+
+    const notes = cell(fields, notesIndex);
+    return {
+      line,
+      mbDate,
+      mbCash: Math.abs(amount),
+      inOutCode: amount < 0 ? "1" : "0",
+      mbContent: cell(fields, descriptionIndex),
+      mbDetailContent: notes || undefined,
+    };
+  });
+}
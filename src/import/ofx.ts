@@ -0,0 +1,114 @@
+/**
+ * OFX/QFX statement parsing for the Money Manager MCP server
+ * Handles both SGML (OFX 1.x) and XML (OFX 2.x) files
+ */
+
+/**
+ * A statement transaction (STMTTRN) from an OFX file
+ */
+export interface OfxTransaction {
+  /** 1-based line number where the entry starts */
+  line: number;
+  fitId: string;
+  /** Posting date as YYYY-MM-DD */
+  datePosted: string;
+  /** Signed amount; negative values are money going out */
+  amount: number;
+  name?: string;
+  memo?: string;
+  trnType?: string;
+}
+
+/**
+ * An STMTTRN entry that could not be parsed
+ */
+export interface OfxParseError {
+  line: number;
+  fitId?: string;
+  error: string;
+}
+
+/**
+ * Decodes the XML entities used in OFX values
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Reads a leaf element value from an OFX block
+ * SGML leaf elements have no closing tag, so the value runs to the next tag.
+ */
+function readElement(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<]*)`, "i").exec(block);
+  const value = match?.[1]?.trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+/**
+ * Converts an OFX date (YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]) to YYYY-MM-DD
+ */
+function parseOfxDate(value: string): string | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day] = match;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parses the STMTTRN entries of an OFX or QFX file
+ */
+export function parseOfxTransactions(
+  text: string,
+): (OfxTransaction | OfxParseError)[] {
+  const entries: (OfxTransaction | OfxParseError)[] = [];
+  const pattern =
+    /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi;
+
+  for (const match of text.matchAll(pattern)) {
+    const block = match[1] ?? "";
+    const line = text.slice(0, match.index).split("\n").length;
+
+    const fitId = readElement(block, "FITID");
+    if (!fitId) {
+      entries.push({ line, error: "Entry has no FITID" });
+      continue;
+    }
+
+    const rawDate = readElement(block, "DTPOSTED") ?? "";
+    const datePosted = parseOfxDate(rawDate);
+    if (!datePosted) {
+      entries.push({ line, fitId, error: `Invalid DTPOSTED "${rawDate}"` });
+      continue;
+    }
+
+    // Some banks write decimal commas
+    const rawAmount = readElement(block, "TRNAMT") ?? "";
+    const amount = Number(
+      rawAmount.includes(".") ? rawAmount : rawAmount.replace(",", "."),
+    );
+    if (rawAmount === "" || !Number.isFinite(amount)) {
+      entries.push({ line, fitId, error: `Invalid TRNAMT "${rawAmount}"` });
+      continue;
+    }
+
+    entries.push({
+      line,
+      fitId,
+      datePosted,
+      amount,
+      name: readElement(block, "NAME"),
+      memo: readElement(block, "MEMO"),
+      trnType: readElement(block, "TRNTYPE"),
+    });
+  }
+
+  return entries;
+}
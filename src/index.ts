@@ -11,16 +11,149 @@ import {
 
 import { loadConfig, type Config } from "./config/index.js";
 import { createHttpClient, type HttpClient } from "./client/http-client.js";
+import { configureReferenceCache } from "./cache/index.js";
+import { runBackupCommand } from "./backup/cli.js";
 import { wrapError, ValidationError } from "./errors/index.js";
 import {
   ToolSchemas,
   type ToolName,
   safeValidateToolInput,
 } from "./schemas/index.js";
-import { executeToolHandler } from "./tools/handlers.js";
+import {
+  BACKUP_TOOLS,
+  executeToolHandler,
+  MUTATING_TOOLS,
+  type ToolHandlerName,
+} from "./tools/handlers.js";
 
 import packageJson from "../package.json" with { type: "json" };
 
+/**
+ * Input schema shared by transaction_create and the items of
+ * transaction_create_batch
+ */
+const TRANSACTION_CREATE_INPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    mbDate: {
+      type: "string",
+      description: "Transaction date (YYYY-MM-DD)",
+    },
+    assetId: {
+      type: "string",
+      description: "Asset/Account ID (or provide assetName)",
+    },
+    assetName: {
+      type: "string",
+      description: "Optional: Asset/Account name, used when assetId is omitted",
+    },
+    payType: { type: "string", description: "Payment type name" },
+    mcid: {
+      type: "string",
+      description:
+        "Optional: Category ID. When both mcid and mbCategory are omitted the category is picked by the configured rules or from similar past transactions",
+    },
+    mbCategory: {
+      type: "string",
+      description:
+        "Optional: Category name; may also be a subcategory name when mcid is omitted",
+    },
+    mbCash: { type: "number", description: "Amount" },
+    inOutCode: {
+      type: "string",
+      enum: ["0", "1"],
+      description: "0=Income, 1=Expense",
+    },
+    inOutType: {
+      type: "string",
+      description:
+        "Optional: Transaction type name (defaults to Income/Expense)",
+    },
+    mcscid: { type: "string", description: "Optional: Subcategory ID" },
+    subCategory: {
+      type: "string",
+      description: "Optional: Subcategory name",
+    },
+    mbContent: { type: "string", description: "Optional: Description" },
+    mbDetailContent: {
+      type: "string",
+      description: "Optional: Detailed notes",
+    },
+  },
+  required: ["mbDate", "payType", "mbCash", "inOutCode"],
+};
+
+/**
+ * Tags property shared by transaction_create and transaction_update
+ */
+const TAGS_PROPERTY = {
+  type: "array",
+  items: { type: "string" },
+  description:
+    "Optional: Tags such as 'trip-goa', stored as #hashtags in the notes (letters, digits, '-' and '_')",
+};
+
+/**
+ * Transaction fields of a recurring template: those of transaction_create
+ * except the date, which comes from the schedule
+ */
+const TRANSACTION_TEMPLATE_SCHEMA = {
+  type: "object" as const,
+  properties: Object.fromEntries(
+    Object.entries(TRANSACTION_CREATE_INPUT_SCHEMA.properties).filter(
+      ([name]) => name !== "mbDate",
+    ),
+  ),
+  required: TRANSACTION_CREATE_INPUT_SCHEMA.required.filter(
+    (name) => name !== "mbDate",
+  ),
+};
+
+/**
+ * Duplicate policy override shared by the create and import tools
+ */
+const DUPLICATE_POLICY_PROPERTY = {
+  type: "string",
+  enum: ["off", "warn", "block", "skip"],
+  description:
+    "Optional: What to do if the transaction matches an existing one (same type, amount, asset, category and description within a few days): warn = create and report, block = refuse, skip = do not create, off = do not check. Defaults to the configured policy.",
+};
+
+/**
+ * Dry-run argument shared by every tool that changes data
+ */
+const DRY_RUN_PROPERTY = {
+  type: "boolean",
+  description:
+    "Optional: Validate the call and return the requests it would send (endpoint and payload) without changing anything",
+};
+
+/**
+ * Shared confirmation token property for destructive tools
+ */
+const CONFIRMATION_TOKEN_PROPERTY = {
+  type: "string",
+  description:
+    "Optional: Token returned by the first call. Without it the tool only returns what would be deleted and a token",
+};
+
+/**
+ * Data source arguments shared by tools that can read a downloaded backup
+ */
+const DATA_SOURCE_PROPERTIES = {
+  source: {
+    type: "string",
+    enum: ["server", "backup"],
+    description:
+      "Optional: Where to read from. Defaults to the server, falling back to the backup when the server cannot be reached",
+  },
+  backupFile: {
+    type: "string",
+    description:
+      "Optional: money.sqlite backup to read (default: offline.file, then the newest local backup)",
+  },
+};
+
 /**
  * Tool definitions for the MCP server
  * Each tool maps to a Money Manager API endpoint
@@ -45,7 +178,8 @@ const TOOL_DEFINITIONS = [
   // Transactions
   {
     name: "transaction_list",
-    description: "Lists transactions within a date range.",
+    description:
+      "Lists transactions within a date range. Supports filtering by type, category, amount and text, sorting, and limit/offset pagination so large ranges can be narrowed down without returning every row.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -65,13 +199,145 @@ const TOOL_DEFINITIONS = [
           type: "string",
           description: "Optional: Filter by asset ID",
         },
+        inOutCode: {
+          anyOf: [
+            { type: "string" },
+            { type: "array", items: { type: "string" } },
+          ],
+          description:
+            "Optional: Filter by type code(s): 0=Income, 1=Expense, 3=Transfer Out, 4=Transfer In, 7=Card Payment Out, 8=Card Payment In",
+        },
+        mcid: {
+          type: "string",
+          description: "Optional: Filter by category ID",
+        },
+        mcscid: {
+          type: "string",
+          description: "Optional: Filter by subcategory ID",
+        },
+        category: {
+          type: "string",
+          description: "Optional: Filter by category name (fuzzy-matched)",
+        },
+        subCategory: {
+          type: "string",
+          description: "Optional: Filter by subcategory name (fuzzy-matched)",
+        },
+        minAmount: {
+          type: "number",
+          description: "Optional: Minimum amount (inclusive)",
+        },
+        maxAmount: {
+          type: "number",
+          description: "Optional: Maximum amount (inclusive)",
+        },
+        search: {
+          type: "string",
+          description:
+            "Optional: Case-insensitive text search in description and notes",
+        },
+        splitId: {
+          type: "string",
+          description:
+            "Optional: Only the parts of the split created by transaction_create_split with this ID",
+        },
+        sortBy: {
+          type: "string",
+          enum: ["mbDate", "mbCash", "mbCategory", "mbContent"],
+          description: "Optional: Field to sort by",
+        },
+        sortOrder: {
+          type: "string",
+          enum: ["asc", "desc"],
+          description: "Optional: Sort direction (default: asc)",
+        },
+        limit: {
+          type: "number",
+          description: "Optional: Maximum number of transactions to return",
+        },
+        offset: {
+          type: "number",
+          description: "Optional: Number of matching transactions to skip",
+        },
+        ...DATA_SOURCE_PROPERTIES,
       },
       required: ["startDate", "endDate", "mbid"],
     },
   },
+  {
+    name: "transaction_get",
+    description:
+      "Retrieves a single transaction by ID with all of its fields. Without a date hint, the last lookbackMonths months are scanned (newest first); passing the transaction date makes the lookup much faster.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: { type: "string", description: "Transaction ID" },
+        mbid: {
+          type: "string",
+          description:
+            "Optional: Money book ID (defaults to the configured or current book)",
+        },
+        date: {
+          type: "string",
+          description:
+            "Optional: Expected transaction date (YYYY-MM-DD); its month is scanned if the exact day does not match",
+        },
+        lookbackMonths: {
+          type: "number",
+          description:
+            "Optional: Months to scan back from today when no date is given (default: 12)",
+        },
+      },
+      required: ["id"],
+    },
+  },
   {
     name: "transaction_create",
-    description: "Creates a new income or expense transaction.",
+    description:
+      "Creates a new income or expense transaction. The asset, category, subcategory and payment type can be given by name (fuzzy-matched against init data) instead of by ID; ambiguous names return an error listing the candidates. If no category is given, one is picked from the categorization rules or the categories used for similar past descriptions.",
+    inputSchema: {
+      ...TRANSACTION_CREATE_INPUT_SCHEMA,
+      properties: {
+        ...TRANSACTION_CREATE_INPUT_SCHEMA.properties,
+        tags: TAGS_PROPERTY,
+        duplicatePolicy: DUPLICATE_POLICY_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "transaction_create_batch",
+    description:
+      "Creates several income or expense transactions in one call (e.g. a receipt or a week of expenses). Every item is validated and its names resolved before anything is posted; the result lists success, the new transaction ID or the error for each item.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        items: {
+          type: "array",
+          items: TRANSACTION_CREATE_INPUT_SCHEMA,
+          description:
+            "Transactions to create (same fields as transaction_create, max 500)",
+        },
+        concurrency: {
+          type: "number",
+          description:
+            "Optional: Number of requests in flight (1-8, default: 2)",
+        },
+        duplicatePolicy: DUPLICATE_POLICY_PROPERTY,
+        stopOnError: {
+          type: "boolean",
+          description:
+            "Optional: Stop posting after the first failure; remaining items are reported as skipped (default: false)",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ["items"],
+    },
+  },
+  {
+    name: "transaction_create_split",
+    description:
+      "Creates one purchase split across several categories (e.g. a supermarket receipt covering groceries, household and pharmacy). The part amounts must add up to the total. Each part becomes its own transaction with the shared date, asset and payment type, and a [split:<id>] marker in its notes; pass the returned splitId to transaction_list to list the parts together, or to transaction_update_split to edit them as a group. If a part fails, the parts already created are deleted again.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -79,58 +345,266 @@ const TOOL_DEFINITIONS = [
           type: "string",
           description: "Transaction date (YYYY-MM-DD)",
         },
-        assetId: { type: "string", description: "Asset/Account ID" },
+        assetId: {
+          type: "string",
+          description: "Asset/Account ID (or provide assetName)",
+        },
+        assetName: {
+          type: "string",
+          description:
+            "Optional: Asset/Account name, used when assetId is omitted",
+        },
         payType: { type: "string", description: "Payment type name" },
-        mcid: { type: "string", description: "Category ID" },
-        mbCategory: { type: "string", description: "Category name" },
-        mbCash: { type: "number", description: "Amount" },
         inOutCode: {
           type: "string",
           enum: ["0", "1"],
           description: "0=Income, 1=Expense",
         },
-        inOutType: { type: "string", description: "Transaction type name" },
-        mcscid: { type: "string", description: "Optional: Subcategory ID" },
-        subCategory: {
+        inOutType: {
           type: "string",
-          description: "Optional: Subcategory name",
+          description:
+            "Optional: Transaction type name (defaults to Income/Expense)",
+        },
+        total: { type: "number", description: "Total amount of the split" },
+        mbContent: {
+          type: "string",
+          description: "Optional: Description used for every part",
         },
-        mbContent: { type: "string", description: "Optional: Description" },
         mbDetailContent: {
           type: "string",
-          description: "Optional: Detailed notes",
+          description: "Optional: Notes used for every part",
+        },
+        parts: {
+          type: "array",
+          description: "Category/amount parts (2-50) adding up to total",
+          items: {
+            type: "object",
+            properties: {
+              mcid: { type: "string", description: "Category ID" },
+              mbCategory: {
+                type: "string",
+                description:
+                  "Category name; auto-categorized from the description when both mcid and mbCategory are omitted",
+              },
+              mcscid: {
+                type: "string",
+                description: "Optional: Subcategory ID",
+              },
+              subCategory: {
+                type: "string",
+                description: "Optional: Subcategory name",
+              },
+              mbCash: { type: "number", description: "Amount of this part" },
+              mbContent: {
+                type: "string",
+                description: "Optional: Description for this part",
+              },
+              mbDetailContent: {
+                type: "string",
+                description: "Optional: Notes for this part",
+              },
+            },
+            required: ["mbCash"],
+          },
         },
+        dryRun: DRY_RUN_PROPERTY,
       },
-      required: [
-        "mbDate",
-        "assetId",
-        "payType",
-        "mcid",
-        "mbCategory",
-        "mbCash",
-        "inOutCode",
-        "inOutType",
-      ],
+      required: ["mbDate", "payType", "inOutCode", "total", "parts"],
+    },
+  },
+  {
+    name: "transaction_update_split",
+    description:
+      "Edits all parts of a split created by transaction_create_split at once. The date, asset, payment type and description are applied to every part. A new total alone rescales the parts in proportion; part amounts must add up to the total (the new one, or the current one if no total is given). If a part fails, the parts already updated are changed back.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        splitId: {
+          type: "string",
+          description: "Split ID returned by transaction_create_split",
+        },
+        mbDate: {
+          type: "string",
+          description: "Optional: New date for every part (YYYY-MM-DD)",
+        },
+        assetId: {
+          type: "string",
+          description: "Optional: New Asset/Account ID for every part",
+        },
+        assetName: {
+          type: "string",
+          description:
+            "Optional: New Asset/Account name (used if assetId omitted)",
+        },
+        payType: {
+          type: "string",
+          description: "Optional: New payment type name for every part",
+        },
+        mbContent: {
+          type: "string",
+          description: "Optional: New description for every part",
+        },
+        total: {
+          type: "number",
+          description: "Optional: New total amount of the split",
+        },
+        parts: {
+          type: "array",
+          description:
+            "Optional: New amounts for some or all parts; together with the parts left unchanged they must add up to the total",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string", description: "Transaction ID of the part" },
+              mbCash: { type: "number", description: "New amount" },
+            },
+            required: ["id", "mbCash"],
+          },
+        },
+        originalDate: {
+          type: "string",
+          description:
+            "Optional: Current date of the parts (YYYY-MM-DD), speeds up the lookup",
+        },
+        mbid: {
+          type: "string",
+          description: "Optional: Money book ID used for the lookup",
+        },
+        lookbackMonths: {
+          type: "number",
+          description:
+            "Optional: Months to search back when originalDate is not given (default: 12)",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ["splitId"],
+    },
+  },
+  {
+    name: "transaction_import_csv",
+    description:
+      "Imports a bank CSV statement using a named column-mapping profile from the config file (date column and format, amount sign convention, description column, default asset, category rules). Use dryRun to preview the transactions that would be created.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Path to the CSV file",
+        },
+        profile: {
+          type: "string",
+          description: "Name of the mapping profile in imports.csvProfiles",
+        },
+        assetId: {
+          type: "string",
+          description: "Optional: Asset ID, overrides the profile's asset",
+        },
+        assetName: {
+          type: "string",
+          description: "Optional: Asset name, overrides the profile's asset",
+        },
+        startDate: {
+          type: "string",
+          description: "Optional: Only import rows on or after this date",
+        },
+        endDate: {
+          type: "string",
+          description: "Optional: Only import rows on or before this date",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "Optional: Preview the mapped transactions without creating them (default: false)",
+        },
+        concurrency: {
+          type: "number",
+          description:
+            "Optional: Number of requests in flight (1-8, default: 2)",
+        },
+        duplicatePolicy: DUPLICATE_POLICY_PROPERTY,
+      },
+      required: ["filePath", "profile"],
+    },
+  },
+  {
+    name: "transaction_import_ofx",
+    description:
+      "Imports the transactions of an OFX/QFX bank statement into an asset. Entries whose FITID was already imported into that asset are skipped, so the same file can be imported again safely. Use dryRun to preview.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Path to the .ofx or .qfx file",
+        },
+        assetId: {
+          type: "string",
+          description: "Asset/Account ID (or provide assetName)",
+        },
+        assetName: {
+          type: "string",
+          description: "Asset/Account name, used when assetId is omitted",
+        },
+        payType: {
+          type: "string",
+          description: "Optional: Payment type name (default: the asset name)",
+        },
+        incomeCategory: {
+          type: "string",
+          description: "Category name for money coming in",
+        },
+        expenseCategory: {
+          type: "string",
+          description: "Category name for money going out",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "Optional: Preview the mapped transactions without creating them (default: false)",
+        },
+        concurrency: {
+          type: "number",
+          description:
+            "Optional: Number of requests in flight (1-8, default: 2)",
+        },
+        duplicatePolicy: DUPLICATE_POLICY_PROPERTY,
+      },
+      required: ["filePath"],
     },
   },
   {
     name: "transaction_update",
-    description: "Updates an existing transaction.",
+    description:
+      "Updates an existing transaction. Pass only the ID and the fields to change: the current transaction is fetched, the changes are merged in, and the changed fields are returned with their before/after values. Asset, category and subcategory can be changed by name. If every core field is given, the transaction is replaced as-is.",
     inputSchema: {
       type: "object" as const,
       properties: {
         id: { type: "string", description: "Transaction ID" },
         mbDate: {
           type: "string",
-          description: "Transaction date (YYYY-MM-DD)",
+          description: "Optional: New transaction date (YYYY-MM-DD)",
+        },
+        assetId: { type: "string", description: "Optional: Asset/Account ID" },
+        assetName: {
+          type: "string",
+          description: "Optional: Asset/Account name (used if assetId omitted)",
+        },
+        payType: { type: "string", description: "Optional: Payment type name" },
+        mcid: { type: "string", description: "Optional: Category ID" },
+        mbCategory: {
+          type: "string",
+          description:
+            "Optional: Category name (resolved to an ID if mcid omitted)",
+        },
+        mbCash: { type: "number", description: "Optional: Amount" },
+        inOutCode: {
+          type: "string",
+          description: "Optional: Transaction type code",
+        },
+        inOutType: {
+          type: "string",
+          description: "Optional: Transaction type name",
         },
-        assetId: { type: "string", description: "Asset/Account ID" },
-        payType: { type: "string", description: "Payment type name" },
-        mcid: { type: "string", description: "Category ID" },
-        mbCategory: { type: "string", description: "Category name" },
-        mbCash: { type: "number", description: "Amount" },
-        inOutCode: { type: "string", description: "Transaction type code" },
-        inOutType: { type: "string", description: "Transaction type name" },
         mcscid: { type: "string", description: "Optional: Subcategory ID" },
         subCategory: {
           type: "string",
@@ -141,47 +615,141 @@ const TOOL_DEFINITIONS = [
           type: "string",
           description: "Optional: Detailed notes",
         },
+        tags: {
+          ...TAGS_PROPERTY,
+          description:
+            "Optional: Replaces the #hashtags in the notes with these tags (an empty array removes them)",
+        },
+        originalDate: {
+          type: "string",
+          description:
+            "Optional: Current date of the transaction (YYYY-MM-DD), speeds up the lookup",
+        },
+        mbid: {
+          type: "string",
+          description: "Optional: Money book ID used for the lookup",
+        },
+        lookbackMonths: {
+          type: "number",
+          description:
+            "Optional: Months to search back when originalDate is not given (default: 12)",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "transaction_delete",
+    description:
+      "Deletes one or more transactions. The first call returns the matching transactions with their totals and a short-lived confirmation token; the transactions are deleted when the call is repeated with the same IDs and that token. Confirmations can be turned off in the server config.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of transaction IDs to delete",
+        },
+        confirmationToken: CONFIRMATION_TOKEN_PROPERTY,
+        mbid: { type: "string", description: "Optional: Money book ID" },
+        lookbackMonths: {
+          type: "number",
+          description:
+            "Optional: Months scanned for the transactions shown before deleting (default: 12)",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ["ids"],
+    },
+  },
+  {
+    name: "transaction_find_duplicates",
+    description:
+      "Scans a date range for transactions that look like duplicates of each other (same type, amount, asset, category and description within a few days). Returns groups of matching transactions.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        startDate: { type: "string", description: "Start date (YYYY-MM-DD)" },
+        endDate: { type: "string", description: "End date (YYYY-MM-DD)" },
+        mbid: { type: "string", description: "Optional: Money book ID" },
+        assetId: {
+          type: "string",
+          description: "Optional: Only scan this asset",
+        },
+        windowDays: {
+          type: "number",
+          description:
+            "Optional: Maximum days between duplicates (default: configured window, 1)",
+        },
+        ...DATA_SOURCE_PROPERTIES,
+      },
+      required: ["startDate", "endDate"],
+    },
+  },
+
+  // Summary
+  {
+    name: "summary_get_period",
+    description: "Retrieves financial summary statistics for a date range.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        startDate: { type: "string", description: "Start date (YYYY-MM-DD)" },
+        endDate: { type: "string", description: "End date (YYYY-MM-DD)" },
+        ...DATA_SOURCE_PROPERTIES,
       },
-      required: [
-        "id",
-        "mbDate",
-        "assetId",
-        "payType",
-        "mcid",
-        "mbCategory",
-        "mbCash",
-        "inOutCode",
-        "inOutType",
-      ],
+      required: ["startDate", "endDate"],
     },
   },
   {
-    name: "transaction_delete",
-    description: "Deletes one or more transactions.",
+    name: "tag_summary",
+    description:
+      "Totals income and expense per tag (#hashtags in transaction notes) for a date range. A transaction with several tags counts towards each; transactions without tags are totalled separately.",
     inputSchema: {
       type: "object" as const,
       properties: {
-        ids: {
+        startDate: { type: "string", description: "Start date (YYYY-MM-DD)" },
+        endDate: { type: "string", description: "End date (YYYY-MM-DD)" },
+        mbid: { type: "string", description: "Optional: Money book ID" },
+        assetId: {
+          type: "string",
+          description: "Optional: Only include this asset",
+        },
+        tags: {
           type: "array",
           items: { type: "string" },
-          description: "Array of transaction IDs to delete",
+          description: "Optional: Only report these tags",
         },
+        ...DATA_SOURCE_PROPERTIES,
       },
-      required: ["ids"],
+      required: ["startDate", "endDate"],
     },
   },
-
-  // Summary
   {
-    name: "summary_get_period",
-    description: "Retrieves financial summary statistics for a date range.",
+    name: "report_monthly_trend",
+    description:
+      "Reports income, expense, net and savings rate for each of the last N calendar months, with month-over-month and year-over-year changes, and optionally the totals per category.",
     inputSchema: {
       type: "object" as const,
       properties: {
-        startDate: { type: "string", description: "Start date (YYYY-MM-DD)" },
-        endDate: { type: "string", description: "End date (YYYY-MM-DD)" },
+        months: {
+          type: "number",
+          description:
+            "Optional: Number of months to report (1-60, default: 12)",
+        },
+        endMonth: {
+          type: "string",
+          description:
+            "Optional: Last month to report (YYYY-MM, default: the current month)",
+        },
+        includeCategories: {
+          type: "boolean",
+          description:
+            "Optional: Include income and expense per category for each month (default: false)",
+        },
+        ...DATA_SOURCE_PROPERTIES,
       },
-      required: ["startDate", "endDate"],
     },
   },
   {
@@ -218,7 +786,7 @@ const TOOL_DEFINITIONS = [
     description: "Retrieves all assets in a hierarchical structure.",
     inputSchema: {
       type: "object" as const,
-      properties: {},
+      properties: { ...DATA_SOURCE_PROPERTIES },
     },
   },
   {
@@ -239,6 +807,7 @@ const TOOL_DEFINITIONS = [
           type: "string",
           description: "Optional: Linked asset name",
         },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: ["assetGroupId", "assetGroupName", "assetName", "assetMoney"],
     },
@@ -262,6 +831,7 @@ const TOOL_DEFINITIONS = [
           type: "string",
           description: "Optional: Linked asset name",
         },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: [
         "assetId",
@@ -274,11 +844,14 @@ const TOOL_DEFINITIONS = [
   },
   {
     name: "asset_delete",
-    description: "Removes an asset.",
+    description:
+      "Removes an asset. The first call returns the asset with its current balance and a short-lived confirmation token; the asset is removed when the call is repeated with that token. Confirmations can be turned off in the server config.",
     inputSchema: {
       type: "object" as const,
       properties: {
         assetId: { type: "string", description: "Asset ID to delete" },
+        confirmationToken: CONFIRMATION_TOKEN_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: ["assetId"],
     },
@@ -290,7 +863,7 @@ const TOOL_DEFINITIONS = [
     description: "Retrieves all credit cards in a hierarchical structure.",
     inputSchema: {
       type: "object" as const,
-      properties: {},
+      properties: { ...DATA_SOURCE_PROPERTIES },
     },
   },
   {
@@ -317,6 +890,7 @@ const TOOL_DEFINITIONS = [
           type: "number",
           description: "Optional: Payment due day (1-31)",
         },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: ["cardName", "linkAssetId", "linkAssetName", "notPayMoney"],
     },
@@ -342,6 +916,7 @@ const TOOL_DEFINITIONS = [
           type: "number",
           description: "Optional: Payment due day (1-31)",
         },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: ["assetId", "cardName", "linkAssetId", "linkAssetName"],
     },
@@ -365,6 +940,7 @@ const TOOL_DEFINITIONS = [
           type: "string",
           description: "Optional: Detailed notes",
         },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: [
         "moveDate",
@@ -395,6 +971,7 @@ const TOOL_DEFINITIONS = [
           type: "string",
           description: "Optional: Detailed notes",
         },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: [
         "id",
@@ -408,6 +985,206 @@ const TOOL_DEFINITIONS = [
     },
   },
 
+  // Recurring
+  {
+    name: "recurring_list",
+    description:
+      "Lists the recurring transaction and transfer templates (rent, salary, subscriptions, ...) with their schedule, the date they last ran and their next due date.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+    },
+  },
+  {
+    name: "recurring_add",
+    description:
+      "Stores a recurring transaction or transfer template. Give exactly one of transaction or transfer, without a date: each occurrence is dated by the schedule. Nothing is posted until recurring_run_due is called; occurrences from startDate onwards are then posted, including ones already in the past.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description: "Template name, e.g. 'Rent'",
+        },
+        frequency: {
+          type: "string",
+          enum: ["daily", "weekly", "monthly", "yearly"],
+          description: "How often the template falls due",
+        },
+        interval: {
+          type: "number",
+          description:
+            "Optional: Number of periods between occurrences, e.g. 2 with weekly for every other week (default: 1)",
+        },
+        startDate: {
+          type: "string",
+          description: "First occurrence (YYYY-MM-DD)",
+        },
+        endDate: {
+          type: "string",
+          description: "Optional: Last date an occurrence may fall on",
+        },
+        dayOfMonth: {
+          type: "number",
+          description:
+            "Optional: Day of the month (1-31) for monthly and yearly schedules; clamped to the last day in shorter months. Defaults to the day of startDate.",
+        },
+        transaction: {
+          ...TRANSACTION_TEMPLATE_SCHEMA,
+          description:
+            "Income or expense to post (transaction_create fields except mbDate). Names are resolved to IDs when the template is added.",
+        },
+        transfer: {
+          type: "object",
+          description:
+            "Transfer to post (transfer_create fields except moveDate)",
+          properties: {
+            fromAssetId: { type: "string", description: "Source asset ID" },
+            fromAssetName: { type: "string", description: "Source asset name" },
+            toAssetId: { type: "string", description: "Destination asset ID" },
+            toAssetName: {
+              type: "string",
+              description: "Destination asset name",
+            },
+            moveMoney: { type: "number", description: "Transfer amount" },
+            moneyContent: {
+              type: "string",
+              description: "Optional: Description",
+            },
+            mbDetailContent: {
+              type: "string",
+              description: "Optional: Detailed notes",
+            },
+          },
+          required: [
+            "fromAssetId",
+            "fromAssetName",
+            "toAssetId",
+            "toAssetName",
+            "moveMoney",
+          ],
+        },
+      },
+      required: ["name", "frequency", "startDate"],
+    },
+  },
+  {
+    name: "recurring_remove",
+    description:
+      "Deletes a recurring template. Transactions it already posted are kept.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: { type: "string", description: "Template ID, e.g. 'r1'" },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "recurring_run_due",
+    description:
+      "Posts every occurrence of the recurring templates that fell due and has not been posted yet, oldest first. The last posted date of each template is saved locally, so running it again never posts an occurrence twice; a template stops at its first failure and resumes from there next time.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        asOf: {
+          type: "string",
+          description:
+            "Optional: Post occurrences due up to this date (YYYY-MM-DD, default: today)",
+        },
+        ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Optional: Only run these templates",
+        },
+        limit: {
+          type: "number",
+          description:
+            "Optional: Maximum number of occurrences to post in this call (1-500, default: 100); complete is false when more remain",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+    },
+  },
+
+  // Budgets
+  {
+    name: "budget_list",
+    description:
+      "Lists the locally stored budgets: a spending limit per expense category, either every calendar month or for one custom date range.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+    },
+  },
+  {
+    name: "budget_set",
+    description:
+      "Sets the budget for an expense category, stored locally. Setting a budget for a category and period that already has one replaces its amount.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        category: {
+          type: "string",
+          description: "Expense category name, e.g. 'Food'",
+        },
+        amount: {
+          type: "number",
+          description: "Spending limit for each period (positive)",
+        },
+        period: {
+          type: "string",
+          enum: ["monthly", "custom"],
+          description:
+            "Optional: 'monthly' for every calendar month (default) or 'custom' for one date range",
+        },
+        startDate: {
+          type: "string",
+          description:
+            "First day of a custom budget (YYYY-MM-DD, required for custom)",
+        },
+        endDate: {
+          type: "string",
+          description:
+            "Last day of a custom budget (YYYY-MM-DD, required for custom)",
+        },
+      },
+      required: ["category", "amount"],
+    },
+  },
+  {
+    name: "budget_remove",
+    description: "Deletes a budget definition.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: { type: "string", description: "Budget ID, e.g. 'b1'" },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "budget_status",
+    description:
+      "Shows spending against each budget whose period includes the given day: amount spent so far, remaining, percentage used, and the spend projected for the end of the period at the current daily rate, with any projected overspend.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        asOf: {
+          type: "string",
+          description:
+            "Optional: Day to report on (YYYY-MM-DD, default: today); spending up to and including this day is counted",
+        },
+        categories: {
+          type: "array",
+          items: { type: "string" },
+          description: "Optional: Only report budgets for these categories",
+        },
+        ...DATA_SOURCE_PROPERTIES,
+      },
+    },
+  },
+
   // Dashboard
   {
     name: "dashboard_get_overview",
@@ -430,29 +1207,135 @@ const TOOL_DEFINITIONS = [
     },
   },
 
-  // Backup - DISABLED: These tools are dangerous and not recommended for use via MCP
-  // {
-  //   name: 'backup_download',
-  //   description: 'Downloads the SQLite database backup.',
-  //   inputSchema: {
-  //     type: 'object' as const,
-  //     properties: {
-  //       outputPath: { type: 'string', description: 'Local path to save the backup file' },
-  //     },
-  //     required: ['outputPath'],
-  //   },
-  // },
-  // {
-  //   name: 'backup_restore',
-  //   description: 'Restores from a SQLite database backup file.',
-  //   inputSchema: {
-  //     type: 'object' as const,
-  //     properties: {
-  //       filePath: { type: 'string', description: 'Path to the SQLite backup file' },
-  //     },
-  //     required: ['filePath'],
-  //   },
-  // },
+  // Cache
+  {
+    name: "cache_refresh",
+    description:
+      "Discards cached reference data (categories, payment types, assets and cards) and reloads it from the server. The cache is also cleared automatically after any tool that modifies data.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        mbid: {
+          type: "string",
+          description: "Optional: Money book ID",
+        },
+      },
+    },
+  },
+
+  // Undo
+  {
+    name: "journal_list",
+    description:
+      "Lists recent data-changing operations from the local undo journal, newest first, with their operation IDs and whether each can still be undone.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        limit: {
+          type: "number",
+          description:
+            "Optional: Maximum number of entries to return (1-500, default: 20)",
+        },
+      },
+    },
+  },
+  {
+    name: "undo_last",
+    description:
+      "Reverses the most recent data-changing operation that has not been undone yet: deletes what it created, re-creates what it deleted and restores previous field values. Re-created records get new IDs, which are reported in newIds. Fails instead of skipping to an older operation if the latest one cannot be undone.",
+    inputSchema: {
+      type: "object" as const,
+      properties: { dryRun: DRY_RUN_PROPERTY },
+    },
+  },
+  {
+    name: "undo_operation",
+    description:
+      "Reverses a specific operation from the undo journal by its ID. Use journal_list to find operation IDs. Re-created records get new IDs, which are reported in newIds.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "Operation ID from journal_list, e.g. 'op-1a2b3c4d'",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ["id"],
+    },
+  },
+
+  // Backup (download and restore only offered when backup.enabled is set)
+  {
+    name: "backup_download",
+    description:
+      "Downloads the SQLite database backup to a local file. Only available when backups are enabled in the server config.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        outputPath: {
+          type: "string",
+          description: "Local path to save the backup file",
+        },
+      },
+      required: ["outputPath"],
+    },
+  },
+  {
+    name: "backup_restore",
+    description:
+      "Replaces the whole database with a SQLite backup file. The file must be a Money Manager database. The first call returns its row counts and a short-lived confirmation token; the restore happens when the call is repeated with that token. The current database is downloaded to the data directory first, and the response reports row counts before and after. Only available when backups are enabled in the server config.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Path to the SQLite backup file",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Optional: Token returned by the first call. Without it the tool only checks the file and returns a token",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ["filePath"],
+    },
+  },
+  {
+    name: "backup_diff",
+    description:
+      "Compares two SQLite backup files and reports the transactions, assets and cards that were added, removed or changed (with the changed fields), and the balance change of each asset and card. Only reads local files.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        fromFile: {
+          type: "string",
+          description: "Path to the older backup file",
+        },
+        toFile: {
+          type: "string",
+          description: "Path to the newer backup file",
+        },
+      },
+      required: ["fromFile", "toFile"],
+    },
+  },
+  {
+    name: "backup_verify",
+    description:
+      "Checks a SQLite backup file before it is trusted: runs SQLite's PRAGMA integrity_check, confirms the Money Manager tables and columns exist, and reports row counts, the earliest and latest transaction date and the asset and card balance totals for comparison with asset_list and card_list. Only reads the local file.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Path to the SQLite backup file",
+        },
+      },
+      required: ["filePath"],
+    },
+  },
 ];
 
 /**
@@ -486,8 +1369,17 @@ class MoneyManagerMcpServer {
   private setupHandlers(): void {
     // Handle tool listing
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      // Tools that change data are not offered in read-only mode, and the
+      // backup tools only when they are enabled
+      const tools = TOOL_DEFINITIONS.filter((tool) => {
+        const name = tool.name as ToolHandlerName;
+        if (this.config?.access.readOnly && MUTATING_TOOLS.has(name)) {
+          return false;
+        }
+        return !BACKUP_TOOLS.has(name) || this.config?.backup?.enabled === true;
+      });
       return {
-        tools: TOOL_DEFINITIONS,
+        tools,
       };
     });
 
@@ -615,6 +1507,7 @@ class MoneyManagerMcpServer {
           break;
         }
       }
+      const readOnly = args.includes("--readOnly");
 
       // Load configuration
       this.config = await loadConfig();
@@ -623,14 +1516,28 @@ class MoneyManagerMcpServer {
       if (customBaseUrl) {
         this.config.server.baseUrl = customBaseUrl;
       }
+
+      // The top level of the loaded config is frozen, so the flag is set on
+      // its nested section
+      if (readOnly) {
+        this.config.access.readOnly = true;
+      }
       console.error(
         `[MCP Server] Configuration loaded. Base URL: ${this.config.server.baseUrl}`,
       );
+      if (this.config.access.readOnly) {
+        console.error(
+          "[MCP Server] Read-only mode: tools that change data are disabled.",
+        );
+      }
 
       // Create HTTP client
       this.httpClient = createHttpClient(this.config);
       console.error("[MCP Server] HTTP client initialized.");
 
+      // Set up the shared reference data cache
+      configureReferenceCache(this.config.cache);
+
       // Start the server with stdio transport
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
@@ -660,6 +1567,13 @@ class MoneyManagerMcpServer {
  * Main entry point
  */
 async function main(): Promise<void> {
+  // `money-manager-mcp backup [--schedule]` takes snapshots instead of
+  // starting the server
+  if (process.argv[2] === "backup") {
+    await runBackupCommand(process.argv.slice(3));
+    return;
+  }
+
   const server = new MoneyManagerMcpServer();
   await server.start();
 }
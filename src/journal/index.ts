@@ -0,0 +1,142 @@
+/**
+ * Undo journal for the Money Manager MCP server
+ * Mutating tool calls are appended to a local JSON Lines file together with
+ * the steps that reverse them. Undoing an operation appends a new entry
+ * instead of changing the old one.
+ */
+
+import { randomBytes } from "crypto";
+import { ValidationError } from "../errors/index.js";
+import { appendJsonLine, readJsonLines } from "../storage/index.js";
+import type { JournalEntry, JournalEntrySummary } from "../types/index.js";
+
+/**
+ * Journal file in the data directory
+ */
+const JOURNAL_FILE = "journal.jsonl";
+
+/**
+ * Appends an entry to the journal
+ * @returns The entry with its new ID and timestamp
+ */
+export function appendJournalEntry(
+  entry: Omit<JournalEntry, "id" | "timestamp">,
+): JournalEntry {
+  const recorded: JournalEntry = {
+    id: `op-${randomBytes(4).toString("hex")}`,
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+  appendJsonLine(JOURNAL_FILE, recorded);
+  return recorded;
+}
+
+/**
+ * Reads every journal entry, oldest first
+ */
+export function readJournal(): JournalEntry[] {
+  return readJsonLines<JournalEntry>(JOURNAL_FILE);
+}
+
+/**
+ * Maps each undone operation ID to the ID of the entry that undid it
+ */
+function undoneOperations(entries: JournalEntry[]): Map<string, string> {
+  const undone = new Map<string, string>();
+  for (const entry of entries) {
+    if (entry.undoes) {
+      undone.set(entry.undoes, entry.id);
+    }
+  }
+  return undone;
+}
+
+/**
+ * Lists journal entries newest first, with whether each can still be undone
+ */
+export function summarizeJournal(
+  entries: JournalEntry[],
+): JournalEntrySummary[] {
+  const undone = undoneOperations(entries);
+  return [...entries].reverse().map((entry) => ({
+    id: entry.id,
+    timestamp: entry.timestamp,
+    tool: entry.tool,
+    input: entry.input,
+    undoable: !entry.undoes && !undone.has(entry.id) && entry.undo.length > 0,
+    undoneBy: undone.get(entry.id),
+    undoes: entry.undoes,
+    warnings: entry.warnings,
+  }));
+}
+
+/**
+ * Returns a function that maps a record ID to its current ID
+ * Undoing a delete re-creates records with new IDs, so older operations
+ * that refer to the old IDs are followed through to the latest ones.
+ */
+export function currentIdResolver(
+  entries: JournalEntry[],
+): (id: string) => string {
+  const renamed = new Map<string, string>();
+  for (const entry of entries) {
+    for (const [oldId, newId] of Object.entries(entry.newIds ?? {})) {
+      renamed.set(oldId, newId);
+    }
+  }
+
+  return (id) => {
+    let current = id;
+    const seen = new Set<string>();
+    while (renamed.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = renamed.get(current) ?? current;
+    }
+    return current;
+  };
+}
+
+/**
+ * Finds the operation to undo
+ * Without an ID this is the most recent operation that has not been undone;
+ * an older operation is never picked in its place.
+ * @throws {ValidationError} If there is no such operation, it was already
+ *   undone, or it cannot be undone
+ */
+export function findUndoTarget(
+  entries: JournalEntry[],
+  id?: string,
+): JournalEntry {
+  const undone = undoneOperations(entries);
+  const operations = entries.filter((entry) => !entry.undoes);
+
+  const target = id
+    ? operations.find((entry) => entry.id === id)
+    : [...operations].reverse().find((entry) => !undone.has(entry.id));
+  if (!target) {
+    if (id) {
+      throw ValidationError.noMatch(
+        "id",
+        id,
+        operations.slice(-10).map((entry) => entry.id),
+      );
+    }
+    throw new ValidationError("There is no operation to undo");
+  }
+
+  const undoneBy = undone.get(target.id);
+  if (undoneBy) {
+    throw ValidationError.cannotUndo(
+      target.id,
+      `it was already undone by ${undoneBy}`,
+    );
+  }
+  if (target.undo.length === 0) {
+    throw ValidationError.cannotUndo(
+      target.id,
+      target.warnings?.join("; ") ?? `${target.tool} has no inverse`,
+    );
+  }
+
+  return target;
+}
@@ -0,0 +1,603 @@
+/**
+ * Offline ledger for the Money Manager MCP server
+ * Reads a money.sqlite backup and maps its tables to the types the API
+ * returns, so listing and reporting tools can run without the server.
+ * Balances are worked out from the transactions in the file.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  backupDirectory,
+  readBackupManifest,
+  withDatabaseFile,
+} from "../backup/index.js";
+import type { SqliteFile, SqliteValue } from "../backup/sqlite.js";
+import { getConfig } from "../config/index.js";
+import { FileError, ValidationError } from "../errors/index.js";
+import { resolveDataPath } from "../storage/index.js";
+import { parseTags } from "../tags/index.js";
+import {
+  InOutCode,
+  type Asset,
+  type AssetGroup,
+  type CardGroup,
+  type Category,
+  type CategorySummary,
+  type CreditCard,
+  type OfflineSourceInfo,
+  type SummaryResponse,
+  type Transaction,
+} from "../types/index.js";
+import { roundAmount, type DateRange } from "../utils/index.js";
+
+/**
+ * Names of the transaction types, as the API reports them
+ */
+const IN_OUT_TYPES: Record<string, string> = {
+  [InOutCode.INCOME]: "Income",
+  [InOutCode.EXPENSE]: "Expense",
+  [InOutCode.TRANSFER_OUT]: "Transfer-Out",
+  [InOutCode.TRANSFER_IN]: "Transfer-In",
+  [InOutCode.CARD_PAYMENT_OUT]: "Card Payment-Out",
+  [InOutCode.CARD_PAYMENT_IN]: "Card Payment-In",
+};
+
+/**
+ * Tables and columns of a Money Manager database
+ * Columns list the names seen in different app versions, first match wins.
+ * findSchemaProblems checks a file against this layout before it is read.
+ */
+const LAYOUT = {
+  transactions: {
+    table: "INOUTCASH",
+    id: ["uid"],
+    date: ["ZDATE", "WDATE"],
+    amount: ["ZMONEY", "AMOUNT_ACCOUNT"],
+    type: ["DO_TYPE"],
+    asset: ["assetUid"],
+    toAsset: ["toAssetUid"],
+    category: ["ctgUid"],
+    content: ["ZCONTENT"],
+    memo: ["ZDATA"],
+    deleted: ["IS_DEL"],
+  },
+  assets: {
+    table: "ASSETS",
+    id: ["uid"],
+    name: ["NIC_NAME", "ZNAME", "NAME"],
+    group: ["groupUid"],
+    order: ["ORDERSEQ"],
+    deleted: ["IS_DEL"],
+  },
+  assetGroups: {
+    table: "ASSETGROUP",
+    id: ["uid"],
+    name: ["ACC_GROUP_NAME", "NAME"],
+    order: ["ORDERSEQ"],
+  },
+  cards: {
+    table: "CARDINFO",
+    asset: ["assetUid"],
+    linkAsset: ["linkAssetUid", "LINK_ASSETUID"],
+    settlementDay: ["STL_DAY"],
+    paymentDay: ["PAY_DAY"],
+  },
+  categories: {
+    table: "ZCATEGORY",
+    id: ["uid"],
+    name: ["NAME"],
+    type: ["TYPE"],
+    parent: ["pUid"],
+    order: ["ORDERSEQ"],
+    deleted: ["IS_DEL"],
+  },
+};
+
+/**
+ * Columns each table cannot be mapped without; the other columns are read
+ * when present. Only the transaction table itself is required.
+ */
+const REQUIRED_COLUMNS: {
+  [K in keyof typeof LAYOUT]: Exclude<keyof (typeof LAYOUT)[K], "table">[];
+} = {
+  transactions: ["id", "date", "amount", "type", "asset"],
+  assets: ["id", "name"],
+  assetGroups: ["id", "name"],
+  cards: ["asset", "linkAsset"],
+  categories: ["id", "name", "type"],
+};
+
+type Row = Record<string, SqliteValue>;
+
+/**
+ * Reads a column of a row by any of its names, ignoring case
+ */
+function column(row: Row, names: string[]): SqliteValue | undefined {
+  for (const name of names) {
+    const key = Object.keys(row).find(
+      (candidate) => candidate.toLowerCase() === name.toLowerCase(),
+    );
+    if (key !== undefined && row[key] !== null) {
+      return row[key];
+    }
+  }
+  return undefined;
+}
+
+function text(value: SqliteValue | undefined): string | undefined {
+  if (value === undefined || value === null || value instanceof Uint8Array) {
+    return undefined;
+  }
+  return String(value);
+}
+
+function numeric(value: SqliteValue | undefined): number {
+  const parsed = typeof value === "number" ? value : Number(text(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function isDeleted(row: Row, names: string[]): boolean {
+  return numeric(column(row, names)) === 1;
+}
+
+/**
+ * Converts a stored date to YYYY-MM-DD
+ * The app stores epoch milliseconds of the device's local time, which is
+ * read in this machine's time zone.
+ */
+function toDate(value: SqliteValue | undefined): string | undefined {
+  const raw = text(value);
+  if (!raw) {
+    return undefined;
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(raw)) {
+    return raw.slice(0, 10);
+  }
+  const number = Number(raw);
+  if (!Number.isFinite(number)) {
+    return undefined;
+  }
+  // Values below 1e11 are taken to be seconds
+  const date = new Date(number < 1e11 ? number * 1000 : number);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Orders rows by their ORDERSEQ column, keeping file order for ties
+ */
+function byOrder(rows: Row[], names: string[]): Row[] {
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort(
+      (a, b) =>
+        numeric(column(a.row, names)) - numeric(column(b.row, names)) ||
+        a.index - b.index,
+    )
+    .map(({ row }) => row);
+}
+
+/**
+ * Change of an asset's balance caused by a transaction
+ */
+function balanceEffect(transaction: Transaction): number {
+  switch (transaction.inOutCode) {
+    case InOutCode.INCOME:
+    case InOutCode.TRANSFER_IN:
+    case InOutCode.CARD_PAYMENT_IN:
+      return transaction.mbCash;
+    case InOutCode.EXPENSE:
+    case InOutCode.TRANSFER_OUT:
+    case InOutCode.CARD_PAYMENT_OUT:
+      return -transaction.mbCash;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Totals transactions per category name, largest first
+ */
+function totalsByCategory(transactions: Transaction[]): CategorySummary[] {
+  const totals = new Map<string, number>();
+  for (const { mbCategory, mbCash } of transactions) {
+    totals.set(mbCategory, (totals.get(mbCategory) ?? 0) + mbCash);
+  }
+  return [...totals.entries()]
+    .map(([mcname, sum]) => ({ mcname, mcSum: roundAmount(sum) }))
+    .sort((a, b) => b.mcSum - a.mcSum);
+}
+
+/**
+ * Checks a database against the table and column names the ledger reads
+ * Column names are looked up as SQLite reports them (PRAGMA table_info),
+ * ignoring case.
+ * @returns Problems found, empty if none
+ */
+export function findSchemaProblems(db: SqliteFile): string[] {
+  const problems: string[] = [];
+  for (const key of Object.keys(LAYOUT) as (keyof typeof LAYOUT)[]) {
+    const layout: Record<string, string | string[]> = LAYOUT[key];
+    const table = db.table(LAYOUT[key].table);
+    if (!table) {
+      if (key === "transactions") {
+        problems.push(`missing table ${LAYOUT[key].table}`);
+      }
+      continue;
+    }
+
+    const columns = table.columns.map((name) => name.toLowerCase());
+    const missing = REQUIRED_COLUMNS[key].filter((field) => {
+      const names = layout[field] as string[];
+      return !names.some((name) => columns.includes(name.toLowerCase()));
+    });
+    if (missing.length > 0) {
+      const expected = missing.map(
+        (field) => `${field} (${(layout[field] as string[]).join(" or ")})`,
+      );
+      problems.push(
+        `table ${table.name} has no ${expected.join(", ")} column; its columns are ${table.columns.join(", ")}`,
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * The ledger held in a backup file
+ */
+export class OfflineLedger {
+  readonly info: OfflineSourceInfo;
+  private readonly transactions: Transaction[];
+  private readonly groups: AssetGroup[];
+  private readonly cards: CardGroup[];
+  private readonly categoryTree: { income: Category[]; expense: Category[] };
+
+  /**
+   * @throws {FileError} If the file lacks the transaction table or a column
+   *   the ledger needs
+   */
+  constructor(db: SqliteFile, filePath: string, modifiedAt: Date) {
+    this.info = { filePath, modifiedAt: modifiedAt.toISOString() };
+
+    const problems = findSchemaProblems(db);
+    if (problems.length > 0) {
+      throw FileError.invalidDatabase(filePath, problems.join("; "));
+    }
+
+    const read = (name: string, required: boolean): Row[] => {
+      const table = db.table(name);
+      if (!table) {
+        if (required) {
+          throw FileError.invalidDatabase(filePath, `missing table ${name}`);
+        }
+        return [];
+      }
+      try {
+        return db.readRows(table);
+      } catch (error) {
+        throw FileError.invalidDatabase(
+          filePath,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    };
+
+    // Categories: top-level rows and their subcategories
+    const { categories: c } = LAYOUT;
+    const categoryRows = byOrder(
+      read(c.table, false).filter((row) => !isDeleted(row, c.deleted)),
+      c.order,
+    );
+    const categoryById = new Map<
+      string,
+      { name: string; parent?: string; type: string }
+    >();
+    for (const row of categoryRows) {
+      const id = text(column(row, c.id));
+      if (id) {
+        categoryById.set(id, {
+          name: text(column(row, c.name)) ?? "",
+          parent: text(column(row, c.parent)) || undefined,
+          type: text(column(row, c.type)) ?? "",
+        });
+      }
+    }
+    this.categoryTree = { income: [], expense: [] };
+    const topLevel = new Map<string, Category>();
+    for (const [id, category] of categoryById) {
+      if (!category.parent || !categoryById.has(category.parent)) {
+        const entry: Category = { mcid: id, mcname: category.name };
+        topLevel.set(id, entry);
+        if (category.type === InOutCode.INCOME) {
+          this.categoryTree.income.push(entry);
+        } else if (category.type === InOutCode.EXPENSE) {
+          this.categoryTree.expense.push(entry);
+        }
+      }
+    }
+    for (const [id, category] of categoryById) {
+      const parent = category.parent && topLevel.get(category.parent);
+      if (parent) {
+        (parent.mcsc ??= []).push({ mcscid: id, mcscname: category.name });
+      }
+    }
+
+    // Transactions
+    const { transactions: t } = LAYOUT;
+    const transactionRows = read(t.table, true);
+
+    const { assets: a } = LAYOUT;
+    const assetRows = byOrder(
+      read(a.table, false).filter((row) => !isDeleted(row, a.deleted)),
+      a.order,
+    );
+    const assetNames = new Map<string, string>();
+    for (const row of assetRows) {
+      const id = text(column(row, a.id));
+      if (id) {
+        assetNames.set(id, text(column(row, a.name)) ?? "");
+      }
+    }
+
+    this.transactions = [];
+    transactionRows.forEach((row, index) => {
+      const mbDate = toDate(column(row, t.date));
+      if (isDeleted(row, t.deleted) || !mbDate) {
+        return;
+      }
+      const inOutCode = text(column(row, t.type)) ?? InOutCode.UNKNOWN;
+      const assetId = text(column(row, t.asset)) ?? "";
+      const categoryId = text(column(row, t.category));
+      const category = categoryId ? categoryById.get(categoryId) : undefined;
+      const parentId = category?.parent;
+      const parent = parentId ? categoryById.get(parentId) : undefined;
+      const mbDetailContent = text(column(row, t.memo));
+      const tags = parseTags(mbDetailContent);
+
+      this.transactions.push({
+        id: text(column(row, t.id)) ?? String(index + 1),
+        mbDate,
+        assetId,
+        toAssetId: text(column(row, t.toAsset)) || undefined,
+        payType: assetNames.get(assetId) ?? "",
+        mcid: (parent ? parentId : categoryId) ?? "",
+        mbCategory: (parent ?? category)?.name ?? "",
+        mcscid: parent ? categoryId : undefined,
+        subCategory: parent ? category?.name : undefined,
+        mbContent: text(column(row, t.content)),
+        mbCash: Math.abs(numeric(column(row, t.amount))),
+        inOutCode,
+        inOutType: IN_OUT_TYPES[inOutCode] ?? "",
+        mbDetailContent,
+        tags: tags.length > 0 ? tags : undefined,
+      });
+    });
+    this.transactions.sort((x, y) => x.mbDate.localeCompare(y.mbDate));
+
+    // Assets and cards, with balances from the transactions
+    const balances = new Map<string, number>();
+    for (const transaction of this.transactions) {
+      balances.set(
+        transaction.assetId,
+        (balances.get(transaction.assetId) ?? 0) + balanceEffect(transaction),
+      );
+    }
+
+    const { cards: k } = LAYOUT;
+    const cardInfo = new Map<string, Row>();
+    for (const row of read(k.table, false)) {
+      const assetId = text(column(row, k.asset));
+      if (assetId) {
+        cardInfo.set(assetId, row);
+      }
+    }
+
+    const { assetGroups: g } = LAYOUT;
+    const groupRows = byOrder(read(g.table, false), g.order);
+    const groupNames = new Map<string, string>();
+    for (const row of groupRows) {
+      const id = text(column(row, g.id));
+      if (id) {
+        groupNames.set(id, text(column(row, g.name)) ?? "");
+      }
+    }
+
+    const assetGroups = new Map<string, AssetGroup>();
+    const cardGroups = new Map<string, CardGroup>();
+    for (const row of assetRows) {
+      const assetId = text(column(row, a.id));
+      if (!assetId) {
+        continue;
+      }
+      const assetGroupId = text(column(row, a.group)) ?? "";
+      const groupName = groupNames.get(assetGroupId) ?? "";
+      const assetName = assetNames.get(assetId) ?? "";
+      const balance = roundAmount(balances.get(assetId) ?? 0);
+
+      const card = cardInfo.get(assetId);
+      if (card) {
+        const linkAssetId = text(column(card, k.linkAsset)) ?? "";
+        const group = cardGroups.get(assetGroupId) ?? {
+          assetGroupId,
+          assetType: "group",
+          assetName: groupName,
+          assetMoney: 0,
+          notPayMoney: 0,
+          children: [],
+        };
+        cardGroups.set(assetGroupId, group);
+        const child: CreditCard = {
+          assetId,
+          assetName,
+          assetMoney: balance,
+          notPayMoney: balance,
+          linkAssetId,
+          linkAssetName: assetNames.get(linkAssetId),
+          jungsanDay: numeric(column(card, k.settlementDay)) || undefined,
+          paymentDay: numeric(column(card, k.paymentDay)) || undefined,
+        };
+        group.children.push(child);
+        group.assetMoney = roundAmount(group.assetMoney + balance);
+        group.notPayMoney = roundAmount(group.notPayMoney + balance);
+        continue;
+      }
+
+      const group = assetGroups.get(assetGroupId) ?? {
+        assetGroupId,
+        assetType: "group",
+        assetName: groupName,
+        assetMoney: 0,
+        children: [],
+      };
+      assetGroups.set(assetGroupId, group);
+      const child: Asset = {
+        assetId,
+        assetGroupId,
+        assetType: "item",
+        assetName,
+        assetMoney: balance,
+      };
+      group.children.push(child);
+      group.assetMoney = roundAmount(group.assetMoney + balance);
+    }
+    this.groups = [...assetGroups.values()];
+    this.cards = [...cardGroups.values()];
+  }
+
+  /**
+   * Lists the transactions in a date range, oldest first
+   * Without a range every transaction in the file is listed.
+   */
+  listTransactions(range?: DateRange & { assetId?: string }): Transaction[] {
+    if (!range) {
+      return this.transactions;
+    }
+    return this.transactions.filter(
+      (transaction) =>
+        transaction.mbDate >= range.startDate &&
+        transaction.mbDate <= range.endDate &&
+        (!range.assetId || transaction.assetId === range.assetId),
+    );
+  }
+
+  /**
+   * Asset groups with balances, in the app's order
+   */
+  assetGroups(): AssetGroup[] {
+    return this.groups;
+  }
+
+  /**
+   * Credit card groups with unpaid amounts
+   */
+  cardGroups(): CardGroup[] {
+    return this.cards;
+  }
+
+  /**
+   * Income and expense categories with their subcategories
+   */
+  categories(): { income: Category[]; expense: Category[] } {
+    return this.categoryTree;
+  }
+
+  /**
+   * Works out the summary /getSummaryDataByPeriod returns for a date range
+   * Expenses paid with a credit card count as card, all others as cash.
+   */
+  summarize(range: DateRange): SummaryResponse {
+    const transactions = this.listTransactions(range);
+    const income = transactions.filter(
+      (transaction) => transaction.inOutCode === InOutCode.INCOME,
+    );
+    const expense = transactions.filter(
+      (transaction) => transaction.inOutCode === InOutCode.EXPENSE,
+    );
+    const cardIds = new Set(
+      this.cards.flatMap((group) => group.children.map((card) => card.assetId)),
+    );
+    const total = (list: Transaction[]): number =>
+      roundAmount(
+        list.reduce((sum, transaction) => sum + transaction.mbCash, 0),
+      );
+
+    const incomeTotal = total(income);
+    const outcome = total(expense);
+    const card = total(expense.filter((t) => cardIds.has(t.assetId)));
+
+    return {
+      summary: {
+        startDate: range.startDate,
+        endDate: range.endDate,
+        income: incomeTotal,
+        outcome,
+        cash: roundAmount(outcome - card),
+        card,
+        sum: roundAmount(incomeTotal - outcome),
+      },
+      incomeByCategory: totalsByCategory(income),
+      expenseByCategory: totalsByCategory(expense),
+    };
+  }
+}
+
+/**
+ * The most recently opened ledger, reused while its file is unchanged
+ */
+let cached:
+  | { filePath: string; mtimeMs: number; ledger: OfflineLedger }
+  | undefined;
+
+/**
+ * Picks the backup file to read
+ * In order: the given path, offline.file, then the newest backup in the
+ * manifest.
+ * @throws {ValidationError} If there is no backup to read
+ */
+export function resolveOfflineFile(filePath?: string): string {
+  const configured = filePath ?? getConfig().offline?.file;
+  if (configured) {
+    return path.resolve(configured);
+  }
+
+  const newest = readBackupManifest()
+    .backups.slice()
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  if (!newest) {
+    throw new ValidationError(
+      `No backup file to read. Pass backupFile, set offline.file, or take a snapshot with "money-manager-mcp backup" (looked in ${resolveDataPath(backupDirectory())})`,
+      "backupFile",
+    );
+  }
+  return path.join(backupDirectory(), newest.file);
+}
+
+/**
+ * Opens the ledger in a backup file
+ * @throws {ValidationError} If there is no backup to read
+ * @throws {FileError} If the file cannot be read or is not a Money Manager
+ *   database
+ */
+export async function openOfflineLedger(
+  filePath?: string,
+): Promise<OfflineLedger> {
+  const resolved = resolveOfflineFile(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw FileError.notFound(resolved);
+  }
+
+  const { mtime, mtimeMs } = fs.statSync(resolved);
+  if (cached?.filePath === resolved && cached.mtimeMs === mtimeMs) {
+    return cached.ledger;
+  }
+
+  const ledger = await withDatabaseFile(
+    resolved,
+    (db) => new OfflineLedger(db, resolved, mtime),
+  );
+  cached = { filePath: resolved, mtimeMs, ledger };
+  return ledger;
+}
@@ -0,0 +1,137 @@
+/**
+ * Transaction query engine for the Money Manager MCP server
+ * Filters, sorts and paginates transactions after they have been fetched,
+ * since /getDataByPeriod only filters by date range and asset
+ */
+
+import { matchByName, normalizeName } from "../resolver/index.js";
+import type { TransactionQuery } from "../schemas/index.js";
+import { parseSplitId } from "../split/index.js";
+import type { Transaction } from "../types/index.js";
+
+/**
+ * Result of applying a query
+ */
+export interface TransactionQueryResult {
+  /** Matching transactions after sorting and pagination */
+  transactions: Transaction[];
+  /** Number of matching transactions before pagination */
+  totalCount: number;
+}
+
+/**
+ * Returns the set of distinct values that a name filter selects
+ * Uses the same tiers as name resolution, so "food" prefers the "Food"
+ * category over "Fast Food" when both exist.
+ */
+function selectNames(
+  query: string,
+  values: (string | undefined)[],
+): Set<string> {
+  const distinct = [...new Set(values.filter((v): v is string => !!v))];
+  return new Set(matchByName(query, distinct, (name) => name));
+}
+
+/**
+ * Checks whether a transaction's description or notes contain the search text
+ */
+function matchesSearch(transaction: Transaction, search: string): boolean {
+  const needle = normalizeName(search);
+  return [transaction.mbContent, transaction.mbDetailContent].some(
+    (text) => !!text && normalizeName(text).includes(needle),
+  );
+}
+
+/**
+ * Compares two transactions by a sort field
+ */
+function compareBy(
+  field: NonNullable<TransactionQuery["sortBy"]>,
+  a: Transaction,
+  b: Transaction,
+): number {
+  if (field === "mbCash") {
+    return a.mbCash - b.mbCash;
+  }
+  return (a[field] ?? "").localeCompare(b[field] ?? "");
+}
+
+/**
+ * Checks whether a query contains any filter, sort or pagination option
+ */
+export function hasQueryOptions(query: Partial<TransactionQuery>): boolean {
+  return (
+    query.inOutCode !== undefined ||
+    query.mcid !== undefined ||
+    query.mcscid !== undefined ||
+    query.category !== undefined ||
+    query.subCategory !== undefined ||
+    query.minAmount !== undefined ||
+    query.maxAmount !== undefined ||
+    query.search !== undefined ||
+    query.splitId !== undefined ||
+    query.sortBy !== undefined ||
+    query.limit !== undefined ||
+    (query.offset ?? 0) > 0
+  );
+}
+
+/**
+ * Applies filters, sorting and pagination to a list of transactions
+ */
+export function applyTransactionQuery(
+  transactions: Transaction[],
+  query: TransactionQuery,
+): TransactionQueryResult {
+  const inOutCodes =
+    query.inOutCode === undefined
+      ? undefined
+      : new Set(
+          Array.isArray(query.inOutCode) ? query.inOutCode : [query.inOutCode],
+        );
+  const categories = query.category
+    ? selectNames(
+        query.category,
+        transactions.map((t) => t.mbCategory),
+      )
+    : undefined;
+  const subCategories = query.subCategory
+    ? selectNames(
+        query.subCategory,
+        transactions.map((t) => t.subCategory),
+      )
+    : undefined;
+
+  const matches = transactions.filter(
+    (t) =>
+      (!inOutCodes || inOutCodes.has(t.inOutCode)) &&
+      (query.mcid === undefined || t.mcid === query.mcid) &&
+      (query.mcscid === undefined || t.mcscid === query.mcscid) &&
+      (!categories || categories.has(t.mbCategory)) &&
+      (!subCategories ||
+        (!!t.subCategory && subCategories.has(t.subCategory))) &&
+      (query.minAmount === undefined || t.mbCash >= query.minAmount) &&
+      (query.maxAmount === undefined || t.mbCash <= query.maxAmount) &&
+      (query.search === undefined || matchesSearch(t, query.search)) &&
+      (query.splitId === undefined ||
+        parseSplitId(t.mbDetailContent) === query.splitId.toLowerCase()),
+  );
+
+  const { sortBy } = query;
+  if (sortBy) {
+    const direction = query.sortOrder === "desc" ? -1 : 1;
+    matches.sort(
+      (a, b) =>
+        direction * compareBy(sortBy, a, b) ||
+        direction * a.mbDate.localeCompare(b.mbDate),
+    );
+  }
+
+  const end =
+    query.limit === undefined ? undefined : query.offset + query.limit;
+
+  return {
+    transactions: matches.slice(query.offset, end),
+    totalCount: matches.length,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Recurring schedules for the Money Manager MCP server
+ * Works out the dates on which a recurring template falls due
+ */
+
+import type { RecurringSchedule } from "../types/index.js";
+import { addDays, formatDate, parseDate } from "../utils/index.js";
+
+/**
+ * Returns the date of the given day in a month, clamped to the month's length
+ * (e.g. day 31 in April is April 30)
+ */
+function clampedDate(year: number, month: number, day: number): string {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return formatDate(new Date(Date.UTC(year, month, Math.min(day, lastDay))));
+}
+
+/**
+ * Returns the nth occurrence of a schedule, ignoring its start and end dates
+ */
+function occurrenceAt(schedule: RecurringSchedule, n: number): string {
+  const start = parseDate(schedule.startDate);
+  const day = schedule.dayOfMonth ?? start.getUTCDate();
+  const step = n * schedule.interval;
+
+  switch (schedule.frequency) {
+    case "daily":
+      return addDays(schedule.startDate, step);
+    case "weekly":
+      return addDays(schedule.startDate, step * 7);
+    case "monthly":
+      return clampedDate(
+        start.getUTCFullYear(),
+        start.getUTCMonth() + step,
+        day,
+      );
+    case "yearly":
+      return clampedDate(
+        start.getUTCFullYear() + step,
+        start.getUTCMonth(),
+        day,
+      );
+  }
+}
+
+/**
+ * Lists the dates a schedule falls due in a range, oldest first
+ * Dates before the start date or after the end date are never returned.
+ * @param from - First date of the range (inclusive)
+ * @param to - Last date of the range (inclusive)
+ */
+export function occurrencesBetween(
+  schedule: RecurringSchedule,
+  from: string,
+  to: string,
+): string[] {
+  const last =
+    schedule.endDate && schedule.endDate < to ? schedule.endDate : to;
+  const dates: string[] = [];
+
+  for (let n = 0; ; n++) {
+    const date = occurrenceAt(schedule, n);
+    if (date > last) {
+      break;
+    }
+    if (date >= from && date >= schedule.startDate) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Returns the first date a schedule falls due after a given date
+ * @param after - Date to search from (exclusive); omit to start at the
+ *   schedule's start date
+ * @returns The date, or undefined if the schedule has ended
+ */
+export function nextOccurrence(
+  schedule: RecurringSchedule,
+  after?: string,
+): string | undefined {
+  for (let n = 0; ; n++) {
+    const date = occurrenceAt(schedule, n);
+    if (schedule.endDate && date > schedule.endDate) {
+      return undefined;
+    }
+    if (date >= schedule.startDate && (!after || date > after)) {
+      return date;
+    }
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * Name resolution for the Money Manager MCP server
+ * Maps human-readable asset, category and payment type names to the IDs and
+ * canonical names stored by the server
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type { TransactionCreateInput as TransactionCreateToolInput } from "../schemas/index.js";
+import {
+  InOutCode,
+  type Category,
+  type InitDataResponse,
+  type SubCategory,
+  type TransactionCreateInput,
+} from "../types/index.js";
+
+// ============================================================================
+// Fuzzy Matching
+// ============================================================================
+
+/**
+ * Minimum similarity (0-1) for a typo-tolerant match
+ */
+const MIN_SIMILARITY = 0.8;
+
+/**
+ * Default transaction type names sent when the caller omits inOutType
+ */
+const DEFAULT_IN_OUT_TYPES: Record<string, string> = {
+  [InOutCode.INCOME]: "Income",
+  [InOutCode.EXPENSE]: "Expense",
+};
+
+/**
+ * Normalizes a name for comparison
+ * Lowercases, strips accents, emoji and punctuation, and collapses whitespace
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Reduces plural words to their singular form so "Groceries" and "grocery"
+ * compare equal
+ */
+function singularize(normalized: string): string {
+  return normalized
+    .split(" ")
+    .map((word) =>
+      word.length > 3 && word.endsWith("ies")
+        ? `${word.slice(0, -3)}y`
+        : word.length > 3 && word.endsWith("s") && !word.endsWith("ss")
+          ? word.slice(0, -1)
+          : word,
+    )
+    .join(" ");
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost,
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Similarity ratio between two normalized names (1 = identical)
+ */
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Returns every candidate matching the query in the best available tier:
+ * exact name, then substring, then typo-tolerant similarity
+ */
+export function matchByName<T>(
+  query: string,
+  candidates: readonly T[],
+  getName: (candidate: T) => string,
+): T[] {
+  const normalizedQuery = singularize(normalizeName(query));
+  if (!normalizedQuery) {
+    return [];
+  }
+
+  const named = candidates.map((candidate) => ({
+    candidate,
+    name: singularize(normalizeName(getName(candidate))),
+  }));
+
+  const exact = named.filter(({ name }) => name === normalizedQuery);
+  if (exact.length > 0) {
+    return exact.map(({ candidate }) => candidate);
+  }
+
+  const partial = named.filter(
+    ({ name }) =>
+      name.length > 0 &&
+      (name.includes(normalizedQuery) || normalizedQuery.includes(name)),
+  );
+  if (partial.length > 0) {
+    return partial.map(({ candidate }) => candidate);
+  }
+
+  return named
+    .filter(({ name }) => similarity(name, normalizedQuery) >= MIN_SIMILARITY)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Finds exactly one candidate by name
+ * Throws a ValidationError listing the candidates when the name is ambiguous
+ * or does not match anything
+ */
+export function findOneByName<T>(
+  field: string,
+  query: string,
+  candidates: readonly T[],
+  getName: (candidate: T) => string,
+): T {
+  const matches = matchByName(query, candidates, getName);
+
+  if (matches.length === 1 && matches[0] !== undefined) {
+    return matches[0];
+  }
+  if (matches.length > 1) {
+    throw ValidationError.ambiguousMatch(field, query, matches.map(getName));
+  }
+  throw ValidationError.noMatch(field, query, candidates.map(getName));
+}
+
+// ============================================================================
+// Transaction Resolution
+// ============================================================================
+
+/**
+ * A category together with the optionally matched subcategory
+ */
+interface CategoryMatch {
+  category: Category;
+  subCategory?: SubCategory;
+}
+
+/**
+ * transaction_create input in which every server field is already an ID
+ */
+type TransactionCreateWithIds = TransactionCreateToolInput & {
+  assetId: string;
+  mcid: string;
+  mbCategory: string;
+  inOutType: string;
+};
+
+/**
+ * Checks whether a transaction_create input can be posted without resolving
+ * any names against init data
+ */
+export function hasServerIds(
+  input: TransactionCreateToolInput,
+): input is TransactionCreateWithIds {
+  return (
+    !!input.assetId &&
+    !!input.mcid &&
+    !!input.mbCategory &&
+    !!input.inOutType &&
+    (!input.subCategory || !!input.mcscid)
+  );
+}
+
+/**
+ * Resolves the category (and subcategory) of a transaction
+ * A name that matches no category is also tried against subcategory names,
+ * so "Groceries" can resolve to "Food / Groceries".
+ */
+function resolveCategory(
+  input: TransactionCreateToolInput,
+  categories: Category[],
+): CategoryMatch {
+  let category: Category | undefined;
+
+  if (input.mcid) {
+    category = categories.find((c) => c.mcid === input.mcid);
+    if (!category) {
+      // Unknown ID: trust the caller as before, but a name is then required
+      if (!input.mbCategory) {
+        throw ValidationError.noMatch(
+          "mcid",
+          input.mcid,
+          categories.map((c) => c.mcname),
+        );
+      }
+      return {
+        category: { mcid: input.mcid, mcname: input.mbCategory },
+      };
+    }
+  } else if (input.mbCategory) {
+    const matches = matchByName(input.mbCategory, categories, (c) => c.mcname);
+    if (matches.length > 1) {
+      throw ValidationError.ambiguousMatch(
+        "mbCategory",
+        input.mbCategory,
+        matches.map((c) => c.mcname),
+      );
+    }
+    category = matches[0];
+
+    if (!category) {
+      const subMatches = categories.flatMap((c) =>
+        matchByName(
+          input.mbCategory ?? "",
+          c.mcsc ?? [],
+          (s) => s.mcscname,
+        ).map((s) => ({ category: c, subCategory: s })),
+      );
+      if (subMatches.length > 1) {
+        throw ValidationError.ambiguousMatch(
+          "mbCategory",
+          input.mbCategory,
+          subMatches.map(
+            (m) => `${m.category.mcname} / ${m.subCategory.mcscname}`,
+          ),
+        );
+      }
+      const [subMatch] = subMatches;
+      if (!subMatch) {
+        throw ValidationError.noMatch(
+          "mbCategory",
+          input.mbCategory,
+          categories.map((c) => c.mcname),
+        );
+      }
+      return subMatch;
+    }
+  } else {
+    throw ValidationError.requiredField("mcid or mbCategory");
+  }
+
+  const subCategories = category.mcsc ?? [];
+  if (input.mcscid) {
+    const subCategory = subCategories.find((s) => s.mcscid === input.mcscid);
+    return {
+      category,
+      subCategory: subCategory ?? {
+        mcscid: input.mcscid,
+        mcscname: input.subCategory ?? "",
+      },
+    };
+  }
+  if (input.subCategory) {
+    return {
+      category,
+      subCategory: findOneByName(
+        "subCategory",
+        input.subCategory,
+        subCategories,
+        (s) => s.mcscname,
+      ),
+    };
+  }
+
+  return { category };
+}
+
+/**
+ * Resolves names in a transaction_create input to server IDs
+ *
+ * Fields supplied as IDs are kept as-is; names are fuzzy-matched against the
+ * categories, payment types and asset names from init data.
+ */
+export function resolveTransactionCreateInput(
+  input: TransactionCreateToolInput,
+  initData: InitDataResponse,
+): TransactionCreateInput {
+  // Asset
+  let assetId = input.assetId;
+  if (!assetId) {
+    if (!input.assetName) {
+      throw ValidationError.requiredField("assetId or assetName");
+    }
+    assetId = findOneByName(
+      "assetName",
+      input.assetName,
+      initData.assetNames,
+      (a) => a.assetName,
+    ).assetId;
+  }
+
+  // Category and subcategory
+  const categories =
+    input.inOutCode === InOutCode.INCOME
+      ? initData.categories.income
+      : initData.categories.expense;
+  const { category, subCategory } = resolveCategory(input, categories);
+
+  // Payment type: use the canonical name when one matches, otherwise keep
+  // the caller's value so unknown payment types still reach the server
+  const paymentTypes = matchByName(
+    input.payType,
+    initData.paymentTypes,
+    (p) => p.ptname,
+  );
+  if (paymentTypes.length > 1) {
+    throw ValidationError.ambiguousMatch(
+      "payType",
+      input.payType,
+      paymentTypes.map((p) => p.ptname),
+    );
+  }
+
+  return {
+    mbDate: input.mbDate,
+    assetId,
+    payType: paymentTypes[0]?.ptname ?? input.payType,
+    mcid: category.mcid,
+    mbCategory:
+      input.mcid && input.mbCategory ? input.mbCategory : category.mcname,
+    mbCash: input.mbCash,
+    inOutCode: input.inOutCode,
+    inOutType:
+      input.inOutType ?? DEFAULT_IN_OUT_TYPES[input.inOutCode] ?? "Expense",
+    mcscid: subCategory?.mcscid,
+    subCategory: subCategory?.mcscname,
+    mbContent: input.mbContent,
+    mbDetailContent: input.mbDetailContent,
+  };
+}
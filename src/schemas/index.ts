@@ -16,6 +16,13 @@ export const DateSchema = z
   .string()
   .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
 
+/**
+ * Month string in YYYY-MM format
+ */
+export const MonthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format");
+
 /**
  * Non-empty string
  */
@@ -55,6 +62,17 @@ export const TransactionIdSchema = z
  */
 export const CategoryIdSchema = z.string().min(1, "Category ID is required");
 
+/**
+ * Where read-only tools take their data from: the server, or a downloaded
+ * money.sqlite backup
+ */
+export const DataSourceSchema = z.object({
+  source: z.enum(["server", "backup"]).optional(),
+  backupFile: NonEmptyString.optional(),
+});
+
+export type DataSourceInput = z.infer<typeof DataSourceSchema>;
+
 // ============================================================================
 // Initialization Schemas
 // ============================================================================
@@ -72,6 +90,16 @@ export type InitGetDataInput = z.infer<typeof InitGetDataInputSchema>;
 // Transaction Schemas
 // ============================================================================
 
+/**
+ * Tag, with or without its leading `#`
+ */
+export const TagSchema = z
+  .string()
+  .regex(
+    /^#?[\p{L}\p{N}_-]+$/u,
+    "Tags may only contain letters, digits, '-' and '_'",
+  );
+
 /**
  * Income/Expense code
  */
@@ -89,29 +117,86 @@ export const ExtendedInOutCodeSchema = z
   .regex(/^[0-8]$/, "inOutCode must be 0-8");
 
 /**
- * Input schema for transaction_list tool
+ * Fields transactions can be sorted by
  */
-export const TransactionListInputSchema = z.object({
-  startDate: DateSchema,
-  endDate: DateSchema,
-  mbid: MbidSchema,
-  assetId: z.string().optional(),
+export const TransactionSortFieldSchema = z.enum([
+  "mbDate",
+  "mbCash",
+  "mbCategory",
+  "mbContent",
+]);
+
+/**
+ * Filtering, sorting and pagination options for listed transactions
+ */
+export const TransactionQuerySchema = z.object({
+  inOutCode: z
+    .union([
+      ExtendedInOutCodeSchema,
+      z.array(ExtendedInOutCodeSchema).min(1, "At least one code is required"),
+    ])
+    .optional(),
+  mcid: z.string().optional(),
+  mcscid: z.string().optional(),
+  category: NonEmptyString.optional(),
+  subCategory: NonEmptyString.optional(),
+  minAmount: NonNegativeNumber.optional(),
+  maxAmount: NonNegativeNumber.optional(),
+  search: NonEmptyString.optional(),
+  splitId: NonEmptyString.optional(),
+  sortBy: TransactionSortFieldSchema.optional(),
+  sortOrder: z.enum(["asc", "desc"]).default("asc"),
+  limit: z.number().int().min(1).max(1000).optional(),
+  offset: z.number().int().min(0).default(0),
 });
 
+export type TransactionQuery = z.infer<typeof TransactionQuerySchema>;
+
+/**
+ * Input schema for transaction_list tool
+ */
+export const TransactionListInputSchema = z
+  .object({
+    startDate: DateSchema,
+    endDate: DateSchema,
+    mbid: MbidSchema,
+    assetId: z.string().optional(),
+  })
+  .merge(TransactionQuerySchema)
+  .merge(DataSourceSchema);
+
 export type TransactionListInput = z.infer<typeof TransactionListInputSchema>;
 
+/**
+ * Input schema for transaction_get tool
+ */
+export const TransactionGetInputSchema = z.object({
+  id: TransactionIdSchema,
+  mbid: z.string().optional(),
+  date: DateSchema.optional(),
+  lookbackMonths: z.number().int().min(1).max(120).default(12),
+});
+
+export type TransactionGetInput = z.infer<typeof TransactionGetInputSchema>;
+
 /**
  * Input schema for transaction_create tool
+ *
+ * The asset, category, subcategory and transaction type may be given either
+ * as server IDs or as human-readable names; missing IDs are resolved from
+ * init data before the transaction is posted. The category may be omitted
+ * entirely, in which case it is picked by auto-categorization.
  */
 export const TransactionCreateInputSchema = z.object({
   mbDate: DateSchema,
-  assetId: AssetIdSchema,
+  assetId: AssetIdSchema.optional(),
+  assetName: NonEmptyString.optional(),
   payType: NonEmptyString,
-  mcid: CategoryIdSchema,
-  mbCategory: NonEmptyString,
+  mcid: CategoryIdSchema.optional(),
+  mbCategory: NonEmptyString.optional(),
   mbCash: PositiveNumber,
   inOutCode: InOutCodeSchema,
-  inOutType: NonEmptyString,
+  inOutType: NonEmptyString.optional(),
   mcscid: z.string().optional(),
   subCategory: z.string().optional(),
   mbContent: z.string().optional(),
@@ -122,23 +207,178 @@ export type TransactionCreateInput = z.infer<
   typeof TransactionCreateInputSchema
 >;
 
+/**
+ * How a create or import handles transactions that look like existing ones
+ */
+export const DuplicatePolicySchema = z.enum(["off", "warn", "block", "skip"]);
+
+/**
+ * Input schema for transaction_create tool
+ * A transaction plus its tags and the duplicate policy override for the call.
+ */
+export const TransactionCreateToolInputSchema =
+  TransactionCreateInputSchema.extend({
+    tags: z.array(TagSchema).optional(),
+    duplicatePolicy: DuplicatePolicySchema.optional(),
+  });
+
+export type TransactionCreateToolInput = z.infer<
+  typeof TransactionCreateToolInputSchema
+>;
+
+/**
+ * Input schema for transaction_create_batch tool
+ */
+export const TransactionCreateBatchInputSchema = z.object({
+  items: z
+    .array(TransactionCreateInputSchema)
+    .min(1, "At least one transaction is required")
+    .max(500, "At most 500 transactions can be created per batch"),
+  concurrency: z.number().int().min(1).max(8).default(2),
+  stopOnError: z.boolean().default(false),
+  duplicatePolicy: DuplicatePolicySchema.optional(),
+});
+
+export type TransactionCreateBatchInput = z.infer<
+  typeof TransactionCreateBatchInputSchema
+>;
+
+/**
+ * One category/amount part of a split transaction
+ */
+export const TransactionSplitPartSchema = z.object({
+  mcid: CategoryIdSchema.optional(),
+  mbCategory: NonEmptyString.optional(),
+  mcscid: z.string().optional(),
+  subCategory: z.string().optional(),
+  mbCash: PositiveNumber,
+  mbContent: z.string().optional(),
+  mbDetailContent: z.string().optional(),
+});
+
+/**
+ * Input schema for transaction_create_split tool
+ * The date, asset, payment type and type are shared by every part; the
+ * description and notes are defaults that a part may override.
+ */
+export const TransactionCreateSplitInputSchema = z.object({
+  mbDate: DateSchema,
+  assetId: AssetIdSchema.optional(),
+  assetName: NonEmptyString.optional(),
+  payType: NonEmptyString,
+  inOutCode: InOutCodeSchema,
+  inOutType: NonEmptyString.optional(),
+  total: PositiveNumber,
+  mbContent: z.string().optional(),
+  mbDetailContent: z.string().optional(),
+  parts: z
+    .array(TransactionSplitPartSchema)
+    .min(2, "A split needs at least two parts")
+    .max(50, "A split can have at most 50 parts"),
+});
+
+export type TransactionCreateSplitInput = z.infer<
+  typeof TransactionCreateSplitInputSchema
+>;
+
+/**
+ * Input schema for transaction_update_split tool
+ *
+ * The date, asset, payment type and description are applied to every part.
+ * A new `total` without `parts` rescales the parts in proportion; amounts
+ * given in `parts` must add up to `total`, or to the current total if none
+ * is given. `originalDate`, `mbid` and `lookbackMonths` help locate the parts.
+ */
+export const TransactionUpdateSplitInputSchema = z.object({
+  splitId: NonEmptyString,
+  mbDate: DateSchema.optional(),
+  assetId: AssetIdSchema.optional(),
+  assetName: NonEmptyString.optional(),
+  payType: NonEmptyString.optional(),
+  mbContent: z.string().optional(),
+  total: PositiveNumber.optional(),
+  parts: z
+    .array(
+      z.object({
+        id: TransactionIdSchema,
+        mbCash: PositiveNumber,
+      }),
+    )
+    .min(1, "At least one part is required")
+    .optional(),
+  originalDate: DateSchema.optional(),
+  mbid: z.string().optional(),
+  lookbackMonths: z.number().int().min(1).max(120).default(12),
+});
+
+export type TransactionUpdateSplitInput = z.infer<
+  typeof TransactionUpdateSplitInputSchema
+>;
+
+/**
+ * Input schema for transaction_import_csv tool
+ */
+export const TransactionImportCsvInputSchema = z.object({
+  filePath: NonEmptyString,
+  profile: NonEmptyString,
+  assetId: AssetIdSchema.optional(),
+  assetName: NonEmptyString.optional(),
+  startDate: DateSchema.optional(),
+  endDate: DateSchema.optional(),
+  dryRun: z.boolean().default(false),
+  concurrency: z.number().int().min(1).max(8).default(2),
+  duplicatePolicy: DuplicatePolicySchema.optional(),
+});
+
+export type TransactionImportCsvInput = z.infer<
+  typeof TransactionImportCsvInputSchema
+>;
+
+/**
+ * Input schema for transaction_import_ofx tool
+ */
+export const TransactionImportOfxInputSchema = z.object({
+  filePath: NonEmptyString,
+  assetId: AssetIdSchema.optional(),
+  assetName: NonEmptyString.optional(),
+  payType: NonEmptyString.optional(),
+  incomeCategory: NonEmptyString.optional(),
+  expenseCategory: NonEmptyString.optional(),
+  dryRun: z.boolean().default(false),
+  concurrency: z.number().int().min(1).max(8).default(2),
+  duplicatePolicy: DuplicatePolicySchema.optional(),
+});
+
+export type TransactionImportOfxInput = z.infer<
+  typeof TransactionImportOfxInputSchema
+>;
+
 /**
  * Input schema for transaction_update tool
+ *
+ * Only the ID is required. When any of the core fields is missing the update
+ * is applied as a patch: the existing transaction is fetched and the given
+ * fields are merged into it. `originalDate` and `mbid` help locate it.
  */
 export const TransactionUpdateInputSchema = z.object({
   id: TransactionIdSchema,
-  mbDate: DateSchema,
-  assetId: AssetIdSchema,
-  payType: NonEmptyString,
-  mcid: CategoryIdSchema,
-  mbCategory: NonEmptyString,
-  mbCash: PositiveNumber,
-  inOutCode: ExtendedInOutCodeSchema,
-  inOutType: NonEmptyString,
+  mbDate: DateSchema.optional(),
+  assetId: AssetIdSchema.optional(),
+  assetName: NonEmptyString.optional(),
+  payType: NonEmptyString.optional(),
+  mcid: CategoryIdSchema.optional(),
+  mbCategory: NonEmptyString.optional(),
+  mbCash: PositiveNumber.optional(),
+  inOutCode: ExtendedInOutCodeSchema.optional(),
+  inOutType: NonEmptyString.optional(),
   mcscid: z.string().optional(),
   subCategory: z.string().optional(),
   mbContent: z.string().optional(),
   mbDetailContent: z.string().optional(),
+  tags: z.array(TagSchema).optional(),
+  originalDate: DateSchema.optional(),
+  mbid: z.string().optional(),
+  lookbackMonths: z.number().int().min(1).max(120).default(12),
 });
 
 export type TransactionUpdateInput = z.infer<
@@ -152,12 +392,32 @@ export const TransactionDeleteInputSchema = z.object({
   ids: z
     .array(TransactionIdSchema)
     .min(1, "At least one transaction ID is required"),
+  confirmationToken: z.string().optional(),
+  mbid: z.string().optional(),
+  lookbackMonths: z.number().int().min(1).max(120).default(12),
 });
 
 export type TransactionDeleteInput = z.infer<
   typeof TransactionDeleteInputSchema
 >;
 
+/**
+ * Input schema for transaction_find_duplicates tool
+ */
+export const TransactionFindDuplicatesInputSchema = z
+  .object({
+    startDate: DateSchema,
+    endDate: DateSchema,
+    mbid: z.string().optional(),
+    assetId: z.string().optional(),
+    windowDays: z.number().int().min(0).max(31).optional(),
+  })
+  .merge(DataSourceSchema);
+
+export type TransactionFindDuplicatesInput = z.infer<
+  typeof TransactionFindDuplicatesInputSchema
+>;
+
 // ============================================================================
 // Summary Schemas
 // ============================================================================
@@ -165,13 +425,45 @@ export type TransactionDeleteInput = z.infer<
 /**
  * Input schema for summary_get_period tool
  */
-export const SummaryGetPeriodInputSchema = z.object({
-  startDate: DateSchema,
-  endDate: DateSchema,
-});
+export const SummaryGetPeriodInputSchema = z
+  .object({
+    startDate: DateSchema,
+    endDate: DateSchema,
+  })
+  .merge(DataSourceSchema);
 
 export type SummaryGetPeriodInput = z.infer<typeof SummaryGetPeriodInputSchema>;
 
+/**
+ * Input schema for tag_summary tool
+ */
+export const TagSummaryInputSchema = z
+  .object({
+    startDate: DateSchema,
+    endDate: DateSchema,
+    mbid: z.string().optional(),
+    assetId: z.string().optional(),
+    tags: z.array(TagSchema).optional(),
+  })
+  .merge(DataSourceSchema);
+
+export type TagSummaryInput = z.infer<typeof TagSummaryInputSchema>;
+
+/**
+ * Input schema for report_monthly_trend tool
+ */
+export const ReportMonthlyTrendInputSchema = z
+  .object({
+    months: z.number().int().min(1).max(60).default(12),
+    endMonth: MonthSchema.optional(),
+    includeCategories: z.boolean().default(false),
+  })
+  .merge(DataSourceSchema);
+
+export type ReportMonthlyTrendInput = z.infer<
+  typeof ReportMonthlyTrendInputSchema
+>;
+
 /**
  * Input schema for summary_export_excel tool
  */
@@ -193,9 +485,9 @@ export type SummaryExportExcelInput = z.infer<
 // ============================================================================
 
 /**
- * Input schema for asset_list tool (no parameters)
+ * Input schema for asset_list tool
  */
-export const AssetListInputSchema = z.object({});
+export const AssetListInputSchema = DataSourceSchema;
 
 export type AssetListInput = z.infer<typeof AssetListInputSchema>;
 
@@ -233,6 +525,7 @@ export type AssetUpdateInput = z.infer<typeof AssetUpdateInputSchema>;
  */
 export const AssetDeleteInputSchema = z.object({
   assetId: AssetIdSchema,
+  confirmationToken: z.string().optional(),
 });
 
 export type AssetDeleteInput = z.infer<typeof AssetDeleteInputSchema>;
@@ -247,9 +540,9 @@ export type AssetDeleteInput = z.infer<typeof AssetDeleteInputSchema>;
 export const DayOfMonthSchema = z.number().int().min(1).max(31);
 
 /**
- * Input schema for card_list tool (no parameters)
+ * Input schema for card_list tool
  */
-export const CardListInputSchema = z.object({});
+export const CardListInputSchema = DataSourceSchema;
 
 export type CardListInput = z.infer<typeof CardListInputSchema>;
 
@@ -318,6 +611,118 @@ export const TransferUpdateInputSchema = z.object({
 
 export type TransferUpdateInput = z.infer<typeof TransferUpdateInputSchema>;
 
+// ============================================================================
+// Recurring Schemas
+// ============================================================================
+
+/**
+ * Recurrence frequency
+ */
+export const RecurringFrequencySchema = z.enum([
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+]);
+
+/**
+ * Input schema for recurring_list tool (no parameters)
+ */
+export const RecurringListInputSchema = z.object({});
+
+export type RecurringListInput = z.infer<typeof RecurringListInputSchema>;
+
+/**
+ * Input schema for recurring_add tool
+ *
+ * Exactly one of `transaction` or `transfer` must be given; neither carries
+ * a date, since every occurrence is dated by the schedule.
+ */
+export const RecurringAddInputSchema = z.object({
+  name: NonEmptyString,
+  frequency: RecurringFrequencySchema,
+  interval: z.number().int().min(1).max(99).default(1),
+  startDate: DateSchema,
+  endDate: DateSchema.optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  transaction: TransactionCreateInputSchema.omit({ mbDate: true }).optional(),
+  transfer: TransferCreateInputSchema.omit({ moveDate: true }).optional(),
+});
+
+export type RecurringAddInput = z.infer<typeof RecurringAddInputSchema>;
+
+/**
+ * Input schema for recurring_remove tool
+ */
+export const RecurringRemoveInputSchema = z.object({
+  id: NonEmptyString,
+});
+
+export type RecurringRemoveInput = z.infer<typeof RecurringRemoveInputSchema>;
+
+/**
+ * Input schema for recurring_run_due tool
+ */
+export const RecurringRunDueInputSchema = z.object({
+  asOf: DateSchema.optional(),
+  ids: z.array(NonEmptyString).optional(),
+  limit: z.number().int().min(1).max(500).default(100),
+});
+
+export type RecurringRunDueInput = z.infer<typeof RecurringRunDueInputSchema>;
+
+// ============================================================================
+// Budget Schemas
+// ============================================================================
+
+/**
+ * Budget period: every calendar month, or one fixed date range
+ */
+export const BudgetPeriodSchema = z.enum(["monthly", "custom"]);
+
+/**
+ * Input schema for budget_list tool (no parameters)
+ */
+export const BudgetListInputSchema = z.object({});
+
+export type BudgetListInput = z.infer<typeof BudgetListInputSchema>;
+
+/**
+ * Input schema for budget_set tool
+ *
+ * Custom budgets need both dates; monthly budgets take none.
+ */
+export const BudgetSetInputSchema = z.object({
+  category: NonEmptyString,
+  amount: PositiveNumber,
+  period: BudgetPeriodSchema.default("monthly"),
+  startDate: DateSchema.optional(),
+  endDate: DateSchema.optional(),
+});
+
+export type BudgetSetInput = z.infer<typeof BudgetSetInputSchema>;
+
+/**
+ * Input schema for budget_remove tool
+ */
+export const BudgetRemoveInputSchema = z.object({
+  id: NonEmptyString,
+});
+
+export type BudgetRemoveInput = z.infer<typeof BudgetRemoveInputSchema>;
+
+/**
+ * Input schema for budget_status tool
+ */
+export const BudgetStatusInputSchema = z
+  .object({
+    asOf: DateSchema.optional(),
+    categories: z.array(NonEmptyString).optional(),
+  })
+  .merge(DataSourceSchema);
+
+export type BudgetStatusInput = z.infer<typeof BudgetStatusInputSchema>;
+
 // ============================================================================
 // Dashboard Schemas
 // ============================================================================
@@ -360,16 +765,94 @@ export type BackupDownloadInput = z.infer<typeof BackupDownloadInputSchema>;
  */
 export const BackupRestoreInputSchema = z.object({
   filePath: NonEmptyString,
+  confirmationToken: z.string().optional(),
 });
 
 export type BackupRestoreInput = z.infer<typeof BackupRestoreInputSchema>;
 
+/**
+ * Input schema for backup_diff tool
+ */
+export const BackupDiffInputSchema = z.object({
+  fromFile: NonEmptyString,
+  toFile: NonEmptyString,
+});
+
+export type BackupDiffInput = z.infer<typeof BackupDiffInputSchema>;
+
+/**
+ * Input schema for backup_verify tool
+ */
+export const BackupVerifyInputSchema = z.object({
+  filePath: NonEmptyString,
+});
+
+export type BackupVerifyInput = z.infer<typeof BackupVerifyInputSchema>;
+
+// ============================================================================
+// Cache Schemas
+// ============================================================================
+
+/**
+ * Input schema for cache_refresh tool
+ */
+export const CacheRefreshInputSchema = z.object({
+  mbid: z.string().optional(),
+});
+
+export type CacheRefreshInput = z.infer<typeof CacheRefreshInputSchema>;
+
+// ============================================================================
+// Undo Schemas
+// ============================================================================
+
+/**
+ * Input schema for undo_last tool
+ */
+export const UndoLastInputSchema = z.object({});
+
+export type UndoLastInput = z.infer<typeof UndoLastInputSchema>;
+
+/**
+ * Input schema for undo_operation tool
+ */
+export const UndoOperationInputSchema = z.object({
+  id: NonEmptyString,
+});
+
+export type UndoOperationInput = z.infer<typeof UndoOperationInputSchema>;
+
+/**
+ * Input schema for journal_list tool
+ */
+export const JournalListInputSchema = z.object({
+  limit: z.number().int().min(1).max(500).default(20),
+});
+
+export type JournalListInput = z.infer<typeof JournalListInputSchema>;
+
+// ============================================================================
+// Dry Run Schemas
+// ============================================================================
+
+/**
+ * Dry-run argument accepted by every tool that changes data
+ */
+export const DryRunInputSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+export type DryRunInput = z.infer<typeof DryRunInputSchema>;
+
 // ============================================================================
 // Tool Schema Registry
 // ============================================================================
 
 /**
  * Registry of all tool input schemas
+ * Tools that change data accept the dry-run argument on top of their own
+ * input; the server validates against these schemas, so an argument missing
+ * here never reaches the handlers.
  */
 export const ToolSchemas = {
   // Initialization
@@ -377,28 +860,52 @@ export const ToolSchemas = {
 
   // Transactions
   transaction_list: TransactionListInputSchema,
-  transaction_create: TransactionCreateInputSchema,
-  transaction_update: TransactionUpdateInputSchema,
-  transaction_delete: TransactionDeleteInputSchema,
+  transaction_get: TransactionGetInputSchema,
+  transaction_create: TransactionCreateToolInputSchema.merge(DryRunInputSchema),
+  transaction_create_batch:
+    TransactionCreateBatchInputSchema.merge(DryRunInputSchema),
+  transaction_create_split:
+    TransactionCreateSplitInputSchema.merge(DryRunInputSchema),
+  transaction_update_split:
+    TransactionUpdateSplitInputSchema.merge(DryRunInputSchema),
+  transaction_import_csv: TransactionImportCsvInputSchema,
+  transaction_import_ofx: TransactionImportOfxInputSchema,
+  transaction_update: TransactionUpdateInputSchema.merge(DryRunInputSchema),
+  transaction_delete: TransactionDeleteInputSchema.merge(DryRunInputSchema),
+  transaction_find_duplicates: TransactionFindDuplicatesInputSchema,
 
   // Summary
   summary_get_period: SummaryGetPeriodInputSchema,
   summary_export_excel: SummaryExportExcelInputSchema,
+  tag_summary: TagSummaryInputSchema,
+  report_monthly_trend: ReportMonthlyTrendInputSchema,
 
   // Assets
   asset_list: AssetListInputSchema,
-  asset_create: AssetCreateInputSchema,
-  asset_update: AssetUpdateInputSchema,
-  asset_delete: AssetDeleteInputSchema,
+  asset_create: AssetCreateInputSchema.merge(DryRunInputSchema),
+  asset_update: AssetUpdateInputSchema.merge(DryRunInputSchema),
+  asset_delete: AssetDeleteInputSchema.merge(DryRunInputSchema),
 
   // Credit Cards
   card_list: CardListInputSchema,
-  card_create: CardCreateInputSchema,
-  card_update: CardUpdateInputSchema,
+  card_create: CardCreateInputSchema.merge(DryRunInputSchema),
+  card_update: CardUpdateInputSchema.merge(DryRunInputSchema),
 
   // Transfers
-  transfer_create: TransferCreateInputSchema,
-  transfer_update: TransferUpdateInputSchema,
+  transfer_create: TransferCreateInputSchema.merge(DryRunInputSchema),
+  transfer_update: TransferUpdateInputSchema.merge(DryRunInputSchema),
+
+  // Recurring
+  recurring_list: RecurringListInputSchema,
+  recurring_add: RecurringAddInputSchema,
+  recurring_remove: RecurringRemoveInputSchema,
+  recurring_run_due: RecurringRunDueInputSchema.merge(DryRunInputSchema),
+
+  // Budgets
+  budget_list: BudgetListInputSchema,
+  budget_set: BudgetSetInputSchema,
+  budget_remove: BudgetRemoveInputSchema,
+  budget_status: BudgetStatusInputSchema,
 
   // Dashboard
   dashboard_get_overview: DashboardGetOverviewInputSchema,
@@ -406,7 +913,17 @@ export const ToolSchemas = {
 
   // Backup
   backup_download: BackupDownloadInputSchema,
-  backup_restore: BackupRestoreInputSchema,
+  backup_restore: BackupRestoreInputSchema.merge(DryRunInputSchema),
+  backup_diff: BackupDiffInputSchema,
+  backup_verify: BackupVerifyInputSchema,
+
+  // Cache
+  cache_refresh: CacheRefreshInputSchema,
+
+  // Undo
+  journal_list: JournalListInputSchema,
+  undo_last: UndoLastInputSchema.merge(DryRunInputSchema),
+  undo_operation: UndoOperationInputSchema.merge(DryRunInputSchema),
 } as const;
 
 /**
@@ -414,6 +931,15 @@ export const ToolSchemas = {
  */
 export type ToolName = keyof typeof ToolSchemas;
 
+/**
+ * Names of the tools whose input accepts a dryRun argument
+ */
+export type DryRunToolName = {
+  [K in ToolName]: "dryRun" extends keyof z.infer<(typeof ToolSchemas)[K]>
+    ? K
+    : never;
+}[ToolName];
+
 /**
  * Helper function to validate tool input
  */
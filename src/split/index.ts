@@ -0,0 +1,121 @@
+/**
+ * Split transactions for the Money Manager MCP server
+ * The parts of a split are separate transactions that carry the same
+ * `[split:<id>]` marker in their notes; their amounts change together
+ */
+
+import { randomBytes } from "crypto";
+import { ValidationError } from "../errors/index.js";
+
+/**
+ * Amount of one part of a split
+ */
+export interface SplitPartAmount {
+  id: string;
+  mbCash: number;
+}
+
+/**
+ * Matches a split marker and captures its ID
+ */
+const SPLIT_MARKER_PATTERN = /\[split:([0-9a-f]+)\]/i;
+
+/**
+ * Creates a new split ID
+ */
+export function createSplitId(): string {
+  return randomBytes(4).toString("hex");
+}
+
+/**
+ * Formats the marker for a split ID
+ */
+export function formatSplitMarker(splitId: string): string {
+  return `[split:${splitId}]`;
+}
+
+/**
+ * Prefixes notes with the marker for a split ID
+ */
+export function addSplitMarker(
+  notes: string | undefined,
+  splitId: string,
+): string {
+  const marker = formatSplitMarker(splitId);
+  return notes ? `${marker} ${notes}` : marker;
+}
+
+/**
+ * Reads the split ID from a transaction's notes
+ */
+export function parseSplitId(notes: string | undefined): string | undefined {
+  return notes
+    ? SPLIT_MARKER_PATTERN.exec(notes)?.[1]?.toLowerCase()
+    : undefined;
+}
+
+/**
+ * Works out the new amount of each part of a split, in cents
+ * Given amounts replace those of their parts and must add up to the total;
+ * with only a new total, the parts are rescaled in proportion.
+ * @param changes - New total and amounts of some parts; the total defaults
+ *   to the current one
+ * @throws {ValidationError} If the amounts do not add up to the total
+ */
+export function splitPartAmounts(
+  parts: SplitPartAmount[],
+  changes: { total?: number; parts?: SplitPartAmount[] },
+): Map<string, number> {
+  const amounts = new Map(
+    parts.map((part) => [part.id, Math.round(part.mbCash * 100)]),
+  );
+  const current = [...amounts.values()].reduce((sum, cents) => sum + cents, 0);
+  const target =
+    changes.total !== undefined ? Math.round(changes.total * 100) : current;
+
+  if (changes.parts) {
+    for (const { id, mbCash } of changes.parts) {
+      if (!amounts.has(id)) {
+        throw ValidationError.noMatch("parts.id", id, [...amounts.keys()]);
+      }
+      amounts.set(id, Math.round(mbCash * 100));
+    }
+    const sum = [...amounts.values()].reduce(
+      (total, cents) => total + cents,
+      0,
+    );
+    if (sum !== target) {
+      throw ValidationError.invalidField(
+        "parts",
+        `amounts adding up to the total of ${target / 100}`,
+        sum / 100,
+      );
+    }
+    return amounts;
+  }
+
+  if (target === current) {
+    return amounts;
+  }
+
+  // Rescale in proportion; rounding leftovers go to the largest part
+  let largest = parts[0]?.id ?? "";
+  let sum = 0;
+  for (const [id, cents] of amounts) {
+    const scaled = Math.round((cents * target) / current);
+    if (scaled <= 0) {
+      throw ValidationError.invalidField(
+        "total",
+        "an amount that leaves every part above zero",
+        changes.total,
+      );
+    }
+    amounts.set(id, scaled);
+    sum += scaled;
+    if (scaled > (amounts.get(largest) ?? 0)) {
+      largest = id;
+    }
+  }
+  amounts.set(largest, (amounts.get(largest) ?? 0) + target - sum);
+  return amounts;
+}
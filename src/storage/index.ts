@@ -0,0 +1,110 @@
+/**
+ * Local state storage for the Money Manager MCP server
+ * Keeps small JSON files (import history, schedules, ...) and append-only
+ * JSON Lines logs in the configured data directory
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { getConfig } from "../config/index.js";
+import { FileError } from "../errors/index.js";
+
+/**
+ * Default data directory, relative to the working directory
+ */
+export const DEFAULT_DATA_DIR = ".money-manager-data";
+
+/**
+ * Resolves the path of a file in the data directory
+ */
+export function resolveDataPath(fileName: string): string {
+  const dataDir = getConfig().storage?.dataDir ?? DEFAULT_DATA_DIR;
+  return path.resolve(process.cwd(), dataDir, fileName);
+}
+
+/**
+ * Reads a JSON file from the data directory
+ * @param fallback - Value returned when the file does not exist yet
+ * @throws {FileError} If the file exists but cannot be read or parsed
+ */
+export function readJsonFile<T>(fileName: string, fallback: T): T {
+  const filePath = resolveDataPath(fileName);
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+  } catch (error) {
+    throw FileError.readFailed(
+      filePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Reads a JSON Lines file from the data directory
+ * @returns One value per non-empty line; an empty list if the file does not
+ *   exist yet
+ * @throws {FileError} If the file exists but cannot be read or parsed
+ */
+export function readJsonLines<T>(fileName: string): T[] {
+  const filePath = resolveDataPath(fileName);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    return fs
+      .readFileSync(filePath, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as T);
+  } catch (error) {
+    throw FileError.readFailed(
+      filePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Appends a value as one line to a JSON Lines file in the data directory
+ * @throws {FileError} If the file cannot be written
+ */
+export function appendJsonLine(fileName: string, data: unknown): void {
+  const filePath = resolveDataPath(fileName);
+
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, `${JSON.stringify(data)}\n`);
+  } catch (error) {
+    throw FileError.writeFailed(
+      filePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Writes a JSON file to the data directory
+ * The file is written to a temporary path and renamed, so an interrupted
+ * write never leaves a truncated file behind.
+ * @throws {FileError} If the file cannot be written
+ */
+export function writeJsonFile(fileName: string, data: unknown): void {
+  const filePath = resolveDataPath(fileName);
+  const tempPath = `${filePath}.tmp`;
+
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    throw FileError.writeFailed(
+      filePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
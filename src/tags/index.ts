@@ -0,0 +1,55 @@
+/**
+ * Transaction tags for the Money Manager MCP server
+ * Money Manager has no tags, so they are kept as `#hashtags` in the
+ * transaction notes (mbDetailContent)
+ */
+
+/**
+ * Matches a hashtag at the start of the notes or after whitespace and
+ * captures the tag without its `#`
+ */
+const HASHTAG_PATTERN = /(?:^|\s)#([\p{L}\p{N}_-]+)/gu;
+
+/**
+ * Normalizes a tag: strips a leading `#` and lowercases it
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+/**
+ * Reads the distinct tags from a transaction's notes, in order of appearance
+ */
+export function parseTags(notes: string | undefined): string[] {
+  if (!notes) {
+    return [];
+  }
+  const tags = [...notes.matchAll(HASHTAG_PATTERN)].map((match) =>
+    normalizeTag(match[1] ?? ""),
+  );
+  return [...new Set(tags)];
+}
+
+/**
+ * Appends the tags that the notes do not contain yet
+ */
+export function addTags(notes: string | undefined, tags: string[]): string {
+  const existing = new Set(parseTags(notes));
+  const missing = [...new Set(tags.map(normalizeTag))].filter(
+    (tag) => !existing.has(tag),
+  );
+  return [notes?.trim(), ...missing.map((tag) => `#${tag}`)]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Replaces the tags in the notes, keeping the rest of the text
+ */
+export function setTags(notes: string | undefined, tags: string[]): string {
+  const text = (notes ?? "")
+    .replace(HASHTAG_PATTERN, "")
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+  return addTags(text, tags);
+}
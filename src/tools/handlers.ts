@@ -3,20 +3,37 @@
  * Each handler implements the business logic for a specific MCP tool
  */
 
-import type { HttpClient } from "../client/http-client.js";
+import * as fs from "fs";
+import * as path from "path";
+import type { HttpClient, RequestOptions } from "../client/http-client.js";
+import { getConfig } from "../config/index.js";
 import {
+  APIError,
+  McpError,
   ValidationError,
   FileError,
+  NetworkError,
+  ReadOnlyError,
+  AccessError,
   wrapError,
 } from "../errors/index.js";
 import {
   InitGetDataInputSchema,
   TransactionListInputSchema,
-  TransactionCreateInputSchema,
+  TransactionGetInputSchema,
+  TransactionCreateToolInputSchema,
+  TransactionCreateBatchInputSchema,
+  TransactionCreateSplitInputSchema,
+  TransactionUpdateSplitInputSchema,
+  TransactionImportCsvInputSchema,
+  TransactionImportOfxInputSchema,
   TransactionUpdateInputSchema,
   TransactionDeleteInputSchema,
+  TransactionFindDuplicatesInputSchema,
   SummaryGetPeriodInputSchema,
   SummaryExportExcelInputSchema,
+  TagSummaryInputSchema,
+  ReportMonthlyTrendInputSchema,
   AssetListInputSchema,
   AssetCreateInputSchema,
   AssetUpdateInputSchema,
@@ -26,10 +43,30 @@ import {
   CardUpdateInputSchema,
   TransferCreateInputSchema,
   TransferUpdateInputSchema,
+  RecurringListInputSchema,
+  RecurringAddInputSchema,
+  RecurringRemoveInputSchema,
+  RecurringRunDueInputSchema,
+  BudgetListInputSchema,
+  BudgetSetInputSchema,
+  BudgetRemoveInputSchema,
+  BudgetStatusInputSchema,
   DashboardGetOverviewInputSchema,
   DashboardGetAssetChartInputSchema,
   BackupDownloadInputSchema,
   BackupRestoreInputSchema,
+  BackupDiffInputSchema,
+  BackupVerifyInputSchema,
+  CacheRefreshInputSchema,
+  JournalListInputSchema,
+  UndoLastInputSchema,
+  UndoOperationInputSchema,
+  DryRunInputSchema,
+  type DataSourceInput,
+  type DryRunToolName,
+  type TransactionCreateInput as TransactionCreateToolInput,
+  type TransactionUpdateInput as TransactionUpdateToolInput,
+  type TransactionUpdateSplitInput as TransactionUpdateSplitToolInput,
 } from "../schemas/index.js";
 import type {
   InitDataResponse,
@@ -39,6 +76,11 @@ import type {
   TransactionOperationResponse,
   SummaryResponse,
   RawSummaryResponse,
+  TagSummaryResponse,
+  TagTotal,
+  MonthlyTrend,
+  MonthlyTrendResponse,
+  TrendDelta,
   ExcelExportResponse,
   AssetListResponse,
   AssetGroup,
@@ -47,13 +89,118 @@ import type {
   CardGroup,
   CardOperationResponse,
   TransferOperationResponse,
+  RecurringListResponse,
+  RecurringOperationResponse,
+  RecurringRunResponse,
+  RecurringRunResult,
+  RecurringTemplate,
+  RecurringTemplateSummary,
+  Budget,
+  BudgetListResponse,
+  BudgetOperationResponse,
+  BudgetStatus,
+  BudgetStatusResponse,
   DashboardResponse,
   RawDashboardResponse,
   AssetChartResponse,
   RawAssetChartResponse,
   BackupDownloadResponse,
   BackupRestoreResponse,
+  BackupRestoreSummary,
+  BackupDiffResponse,
+  BackupVerifyResponse,
+  CacheRefreshResponse,
+  AssetName,
+  CategoryRule,
+  DuplicateScanResponse,
+  FieldChange,
+  ImportResponse,
+  ImportRowResult,
+  ImportRowStatus,
+  TransactionBatchItemResult,
+  TransactionBatchResponse,
+  TransactionSplitResponse,
+  TransactionSplitPartResult,
+  TransactionSplitUpdateResponse,
+  TransactionCreateInput,
+  TransactionUpdateInput,
+  AssetUpdateInput,
+  AssetDeleteSummary,
+  ConfirmationResponse,
+  TransactionDeleteSummary,
+  DryRunResponse,
+  JournalEntry,
+  JournalListResponse,
+  OfflineSourceInfo,
+  UndoResponse,
+  UndoStep,
+  UndoStepResult,
 } from "../types/index.js";
+import { InOutCode } from "../types/index.js";
+import {
+  findOneByName,
+  hasServerIds,
+  normalizeName,
+  resolveTransactionCreateInput,
+} from "../resolver/index.js";
+import { readCsvStatement } from "../import/csv.js";
+import { parseOfxTransactions } from "../import/ofx.js";
+import { readJsonFile, writeJsonFile } from "../storage/index.js";
+import {
+  findCategoryRule,
+  suggestCategoryFromHistory,
+  type CategorySuggestion,
+} from "../categorize/index.js";
+import { nextOccurrence, occurrencesBetween } from "../recurring/index.js";
+import { budgetPeriod, trackBudget } from "../budget/index.js";
+import {
+  appendJournalEntry,
+  currentIdResolver,
+  findUndoTarget,
+  readJournal,
+  summarizeJournal,
+} from "../journal/index.js";
+import {
+  addSplitMarker,
+  createSplitId,
+  parseSplitId,
+  splitPartAmounts,
+} from "../split/index.js";
+import {
+  getConfirmationContext,
+  issueConfirmationToken,
+  redeemConfirmationToken,
+} from "../confirm/index.js";
+import {
+  backupDirectory,
+  countTableRows,
+  hashFile,
+  localBackupPath,
+  saveBackup,
+  verifyBackupFile,
+  withDatabaseFile,
+} from "../backup/index.js";
+import { diffLedgers } from "../backup/diff.js";
+import { inspectBackupFile } from "../backup/verify.js";
+import { openOfflineLedger, type OfflineLedger } from "../offline/index.js";
+import { addTags, normalizeTag, parseTags, setTags } from "../tags/index.js";
+import {
+  findDuplicateGroups,
+  findDuplicatesOf,
+  type DuplicatePolicy,
+} from "../duplicates/index.js";
+import { getReferenceCache } from "../cache/index.js";
+import { applyTransactionQuery, hasQueryOptions } from "../query/index.js";
+import {
+  addDays,
+  endOfMonth,
+  mapWithConcurrency,
+  roundAmount,
+  splitDateRange,
+  startOfMonth,
+  today,
+  type DateRange,
+} from "../utils/index.js";
 
 // ============================================================================
 // Type definitions for raw API responses
@@ -134,9 +281,10 @@ export async function handleInitGetData(
     params["mbid"] = validated.mbid;
   }
 
-  const rawResponse = await httpClient.get<RawInitDataResponse>(
-    "/getInitData",
-    params,
+  const rawResponse = await getReferenceCache().getOrLoad(
+    "initData",
+    () => httpClient.get<RawInitDataResponse>("/getInitData", params),
+    validated.mbid,
   );
 
   // Transform the raw response to the expected format
@@ -153,30 +301,85 @@ export async function handleInitGetData(
   };
 }
 
+// ============================================================================
+// Data Source Helpers
+// ============================================================================
+
+/**
+ * Fields added to a response read from a backup
+ */
+interface DataSourceFields {
+  warnings?: string[];
+  offlineSource?: OfflineSourceInfo;
+}
+
+/**
+ * Reads a response from the server or from a backup
+ * With `source: "backup"` the backup is read; otherwise the server is asked,
+ * and if it cannot be reached the backup is read instead with a warning,
+ * unless `source: "server"` was given or offline.fallback is off.
+ */
+async function withDataSource<T extends object>(
+  input: DataSourceInput,
+  fromServer: () => Promise<T & DataSourceFields>,
+  fromBackup: (ledger: OfflineLedger) => T & DataSourceFields,
+): Promise<T & DataSourceFields> {
+  const readBackup = (ledger: OfflineLedger): T & DataSourceFields => ({
+    ...fromBackup(ledger),
+    offlineSource: ledger.info,
+  });
+
+  if (input.source === "backup") {
+    return readBackup(await openOfflineLedger(input.backupFile));
+  }
+
+  try {
+    return await fromServer();
+  } catch (error) {
+    if (
+      !(error instanceof NetworkError) ||
+      input.source === "server" ||
+      getConfig().offline?.fallback === false
+    ) {
+      throw error;
+    }
+
+    let ledger: OfflineLedger;
+    try {
+      ledger = await openOfflineLedger(input.backupFile);
+    } catch {
+      // Without a readable backup the server error is the one to report
+      throw error;
+    }
+    const response = readBackup(ledger);
+    const { filePath, modifiedAt } = ledger.info;
+    return {
+      ...response,
+      warnings: [
+        `The server could not be reached (${error.message}). ` +
+          `Showing data from the backup ${filePath}, last written ${modifiedAt}; later changes are missing.`,
+        ...(response.warnings ?? []),
+      ],
+    };
+  }
+}
+
 // ============================================================================
 // Transaction Handlers
 // ============================================================================
 
 /**
- * Handler for transaction_list tool
- * Lists transactions within a date range
+ * Fetches and parses the transactions of a single /getDataByPeriod request
  */
-export async function handleTransactionList(
+async function fetchTransactionWindow(
   httpClient: HttpClient,
-  input: unknown,
+  params: Record<string, string | undefined>,
+  options?: RequestOptions,
 ): Promise<TransactionListResponse> {
-  const validated = TransactionListInputSchema.parse(input);
-
-  const params: Record<string, string | undefined> = {
-    startDate: validated.startDate,
-    endDate: validated.endDate,
-    mbid: validated.mbid,
-    assetId: validated.assetId,
-  };
-
   const rawResponse = await httpClient.getXml<RawTransactionXmlResponse>(
     "/getDataByPeriod",
     params,
+    options,
   );
 
   // Handle case where response is empty or dataset is missing/empty
@@ -200,586 +403,4001 @@ export async function handleTransactionList(
       ? rawResponse.dataset.row
       : [rawResponse.dataset.row];
 
-    transactions = rows.map((row: RawTransactionRow) => ({
-      id: row.id,
-      mbDate: row.mbDate,
-      assetId: row.assetId,
-      toAssetId: row.toAssetId,
-      targetAssetId: row.targetAssetId,
-      payType: row.payType,
-      mcid: row.mcid,
-      mbCategory: row.mbCategory,
-      mcscid: row.mcscid,
-      subCategory: row.subCategory,
-      mbContent: row.mbContent,
-      mbCash: parseFloat(row.mbCash) || 0,
-      inOutCode: row.inOutCode,
-      inOutType: row.inOutType,
-      mbDetailContent: row.mbDetailContent,
-    }));
+    transactions = rows.map((row: RawTransactionRow) => {
+      const tags = parseTags(row.mbDetailContent);
+      return {
+        id: row.id,
+        mbDate: row.mbDate,
+        assetId: row.assetId,
+        toAssetId: row.toAssetId,
+        targetAssetId: row.targetAssetId,
+        payType: row.payType,
+        mcid: row.mcid,
+        mbCategory: row.mbCategory,
+        mcscid: row.mcscid,
+        subCategory: row.subCategory,
+        mbContent: row.mbContent,
+        mbCash: parseFloat(row.mbCash) || 0,
+        inOutCode: row.inOutCode,
+        inOutType: row.inOutType,
+        mbDetailContent: row.mbDetailContent,
+        tags: tags.length > 0 ? tags : undefined,
+      };
+    });
   }
 
   return { count, transactions };
 }
 
 /**
- * Handler for transaction_create tool
- * Creates a new income or expense transaction
+ * Checks whether an error is a request timeout
  */
-export async function handleTransactionCreate(
-  httpClient: HttpClient,
-  input: unknown,
-): Promise<TransactionOperationResponse> {
-  const validated = TransactionCreateInputSchema.parse(input);
+function isTimeoutError(error: unknown): error is NetworkError {
+  return (
+    error instanceof NetworkError && error.details?.["errorType"] === "TIMEOUT"
+  );
+}
 
-  const response = await httpClient.post<ApiOperationResponse>("/create", {
-    mbDate: validated.mbDate,
-    assetId: validated.assetId,
-    payType: validated.payType,
-    mcid: validated.mcid,
-    mbCategory: validated.mbCategory,
-    mbCash: validated.mbCash,
-    inOutCode: validated.inOutCode,
-    inOutType: validated.inOutType,
-    mcscid: validated.mcscid || "",
-    subCategory: validated.subCategory || "",
-    mbContent: validated.mbContent || "",
-    mbDetailContent: validated.mbDetailContent || "",
-  });
+/**
+ * Checks that a date range does not end before it starts
+ * @throws {ValidationError} If endDate is before startDate
+ */
+function checkDateRange(range: DateRange): void {
+  if (range.endDate < range.startDate) {
+    throw ValidationError.invalidField(
+      "endDate",
+      `a date on or after ${range.startDate}`,
+      range.endDate,
+    );
+  }
+}
 
-  return {
-    success: response.success !== false && response.result !== "fail",
-    transactionId: response.id,
-    message: response.message,
-  };
+/**
+ * Date range and scope of a /getDataByPeriod query
+ */
+interface TransactionRangeParams extends DateRange {
+  mbid: string;
+  assetId?: string;
 }
 
 /**
- * Handler for transaction_update tool
- * Updates an existing transaction
+ * Fetches all transactions within a date range
+ *
+ * Ranges longer than the configured window are fetched month by month,
+ * because the server hangs on some ranges (typically ones without any
+ * transactions). Windows that time out are treated as empty and reported
+ * in `warnings`; the call only fails if every window times out.
  */
-export async function handleTransactionUpdate(
+async function fetchTransactions(
   httpClient: HttpClient,
-  input: unknown,
-): Promise<TransactionOperationResponse> {
-  const validated = TransactionUpdateInputSchema.parse(input);
+  validated: TransactionRangeParams,
+  options?: RequestOptions,
+): Promise<TransactionListResponse> {
+  checkDateRange(validated);
+
+  const { chunkMonths, concurrency } = getConfig().transactionList ?? {
+    chunkMonths: 1,
+    concurrency: 2,
+  };
+  const windows =
+    chunkMonths > 0 ? splitDateRange(validated, chunkMonths) : [validated];
 
-  const response = await httpClient.post<ApiOperationResponse>("/update", {
-    id: validated.id,
-    mbDate: validated.mbDate,
+  const toParams = (window: DateRange): Record<string, string | undefined> => ({
+    startDate: window.startDate,
+    endDate: window.endDate,
+    mbid: validated.mbid,
     assetId: validated.assetId,
-    payType: validated.payType,
-    mcid: validated.mcid,
-    mbCategory: validated.mbCategory,
-    mbCash: validated.mbCash,
-    inOutCode: validated.inOutCode,
-    inOutType: validated.inOutType,
-    mcscid: validated.mcscid || "",
-    subCategory: validated.subCategory || "",
-    mbContent: validated.mbContent || "",
-    mbDetailContent: validated.mbDetailContent || "",
   });
 
-  return {
-    success: response.success !== false && response.result !== "fail",
-    transactionId: validated.id,
-    message: response.message,
-  };
-}
+  if (windows.length <= 1) {
+    return fetchTransactionWindow(httpClient, toParams(validated), options);
+  }
 
-/**
- * Handler for transaction_delete tool
- * Deletes one or more transactions
- */
-export async function handleTransactionDelete(
-  httpClient: HttpClient,
-  input: unknown,
-): Promise<TransactionOperationResponse> {
-  const validated = TransactionDeleteInputSchema.parse(input);
+  // Retrying a hanging window would only multiply the wait, so each window
+  // gets a single attempt
+  const results = await mapWithConcurrency(
+    windows,
+    concurrency,
+    async (window) => {
+      try {
+        return {
+          window,
+          response: await fetchTransactionWindow(httpClient, toParams(window), {
+            retryCount: 0,
+          }),
+        };
+      } catch (error) {
+        if (isTimeoutError(error)) {
+          return { window, error };
+        }
+        throw error;
+      }
+    },
+  );
 
-  // Format IDs as colon-separated string (API expects ":id1:id2:id3" format)
-  const idsString = ":" + validated.ids.join(":");
+  const timedOut = results.filter((result) => result.error);
+  if (timedOut.length === results.length && timedOut[0]?.error) {
+    throw timedOut[0].error;
+  }
 
-  const response = await httpClient.post<ApiOperationResponse>("/delete", {
-    ids: idsString,
-  });
+  // Merge windows, dropping rows returned by more than one request
+  const seen = new Set<string>();
+  const transactions: Transaction[] = [];
+  for (const { response } of results) {
+    for (const transaction of response?.transactions ?? []) {
+      if (!seen.has(transaction.id)) {
+        seen.add(transaction.id);
+        transactions.push(transaction);
+      }
+    }
+  }
+
+  const warnings = timedOut.map(
+    ({ window }) =>
+      `Request for ${window.startDate} to ${window.endDate} timed out and was treated as empty. ` +
+      "The server hangs on some date ranges, usually ones without transactions.",
+  );
 
   return {
-    success: response.success !== false && response.result !== "fail",
-    deletedCount: validated.ids.length,
-    message: response.message,
+    count: transactions.length,
+    transactions,
+    ...(warnings.length > 0 ? { warnings } : {}),
   };
 }
 
-// ============================================================================
-// Summary Handlers
-// ============================================================================
-
 /**
- * Handler for summary_get_period tool
- * Retrieves financial summary statistics for a date range
+ * Lists the transactions within a date range from the server or a backup
  */
-export async function handleSummaryGetPeriod(
+async function listTransactionsFrom(
   httpClient: HttpClient,
-  input: unknown,
-): Promise<SummaryResponse> {
-  const validated = SummaryGetPeriodInputSchema.parse(input);
-
-  const rawResponse = await httpClient.get<RawSummaryResponse>(
-    "/getSummaryDataByPeriod",
-    {
-      startDate: validated.startDate,
-      endDate: validated.endDate,
+  input: DataSourceInput & DateRange & { mbid?: string; assetId?: string },
+): Promise<TransactionListResponse> {
+  return withDataSource(
+    input,
+    async () =>
+      fetchTransactions(httpClient, {
+        startDate: input.startDate,
+        endDate: input.endDate,
+        mbid: await resolveMbid(httpClient, input.mbid),
+        assetId: input.assetId,
+      }),
+    (ledger) => {
+      checkDateRange(input);
+      const transactions = ledger.listTransactions(input);
+      return { count: transactions.length, transactions };
     },
   );
-
-  return {
-    summary: rawResponse.summary,
-    incomeByCategory: rawResponse.income || [],
-    expenseByCategory: rawResponse.outcome || [],
-  };
 }
 
 /**
- * Handler for summary_export_excel tool
- * Exports transaction data to Excel file
- *
- * NOTE: The Money Manager API returns an HTML file with Excel metadata,
- * not a proper XLSX binary. This format works with .xls extension.
- * If user provides .xlsx extension, it will be auto-corrected to .xls.
+ * Handler for transaction_list tool
+ * Lists transactions within a date range, optionally filtered, sorted and
+ * paginated
  */
-export async function handleSummaryExportExcel(
+export async function handleTransactionList(
   httpClient: HttpClient,
   input: unknown,
-): Promise<ExcelExportResponse> {
-  const validated = SummaryExportExcelInputSchema.parse(input);
-
-  // Auto-correct .xlsx extension to .xls since API returns HTML-based Excel format
-  let outputPath = validated.outputPath;
-  let extensionCorrected = false;
+): Promise<TransactionListResponse> {
+  const validated = TransactionListInputSchema.parse(input);
 
-  if (outputPath.toLowerCase().endsWith(".xlsx")) {
-    outputPath = outputPath.slice(0, -5) + ".xls";
-    extensionCorrected = true;
+  const response = await listTransactionsFrom(httpClient, validated);
+  if (!hasQueryOptions(validated)) {
+    return response;
   }
 
-  try {
-    const result = await httpClient.downloadFile("/getExcelFile", outputPath, {
-      startDate: validated.startDate,
-      endDate: validated.endDate,
-      mbid: validated.mbid,
-      assetId: validated.assetId || "",
-      inOutType: validated.inOutType || "",
-    });
+  const { transactions, totalCount } = applyTransactionQuery(
+    response.transactions,
+    validated,
+  );
 
-    let message = `Excel file exported successfully to ${result.filePath}`;
-    if (extensionCorrected) {
-      message += ` (Note: Extension was changed from .xlsx to .xls because the server returns HTML-based Excel format which requires .xls extension for proper compatibility)`;
-    }
+  return {
+    ...response,
+    count: transactions.length,
+    totalCount,
+    transactions,
+  };
+}
 
-    return {
-      success: true,
-      filePath: result.filePath,
-      fileSize: result.fileSize,
-      message,
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw FileError.writeFailed(outputPath, error.message);
-    }
-    throw wrapError(error);
+/**
+ * Resolves the money book ID, falling back to the configured default and
+ * then to the book reported by init data
+ */
+async function resolveMbid(
+  httpClient: HttpClient,
+  mbid?: string,
+): Promise<string> {
+  if (mbid) {
+    return mbid;
+  }
+  const defaultMbid = getConfig().defaults?.mbid;
+  if (defaultMbid) {
+    return defaultMbid;
   }
+  const initData = await handleInitGetData(httpClient, {});
+  return initData.initData.mbid;
 }
 
-// ============================================================================
-// Asset Handlers
-// ============================================================================
-
 /**
- * Helper to parse string or number to number
+ * Options for locating a transaction by ID
  */
-function toNumber(value: unknown): number {
-  if (typeof value === "number") return value;
-  if (typeof value === "string") return parseFloat(value) || 0;
-  return 0;
+interface FindTransactionOptions {
+  mbid: string;
+  /** Date the transaction is expected on, scanned before its month */
+  date?: string;
+  /** Months to scan backwards from today when no date is given */
+  lookbackMonths: number;
 }
 
 /**
- * Handler for asset_list tool
- * Retrieves all assets in a hierarchical structure
+ * Locates transactions by ID by scanning /getDataByPeriod
+ * With a date hint only that day and its month are scanned; otherwise months
+ * are scanned newest first until every ID is found. Windows that time out
+ * are skipped.
+ * @returns The transactions that were found, keyed by ID
  */
-export async function handleAssetList(
+async function findTransactionsByIds(
   httpClient: HttpClient,
-  input: unknown,
-): Promise<AssetListResponse> {
-  AssetListInputSchema.parse(input);
+  ids: string[],
+  options: FindTransactionOptions,
+): Promise<Map<string, Transaction>> {
+  let windows: DateRange[];
+  if (options.date) {
+    windows = [
+      { startDate: options.date, endDate: options.date },
+      {
+        startDate: startOfMonth(options.date),
+        endDate: endOfMonth(options.date),
+      },
+    ];
+  } else {
+    const endDate = today();
+    windows = splitDateRange(
+      {
+        startDate: startOfMonth(endDate, 1 - options.lookbackMonths),
+        endDate,
+      },
+      1,
+    ).reverse();
+  }
 
-  const rawResponse = await httpClient.get<AssetGroup[]>("/getAssetData");
+  const wanted = new Set(ids);
+  const found = new Map<string, Transaction>();
+  for (const window of windows) {
+    if (found.size === wanted.size) {
+      break;
+    }
 
-  // Calculate total balance from all asset groups
-  let totalBalance = 0;
-  const assetGroups: AssetGroup[] = Array.isArray(rawResponse)
-    ? rawResponse
-    : [];
+    let response: TransactionListResponse;
+    try {
+      response = await fetchTransactionWindow(
+        httpClient,
+        { ...window, mbid: options.mbid },
+        { retryCount: 0 },
+      );
+    } catch (error) {
+      if (isTimeoutError(error)) {
+        continue;
+      }
+      throw error;
+    }
 
-  for (const group of assetGroups) {
-    if (group.children) {
-      for (const asset of group.children) {
-        // API returns assetMoney as string, need to parse it
-        totalBalance += toNumber(asset.assetMoney);
+    for (const transaction of response.transactions) {
+      if (wanted.has(transaction.id) && !found.has(transaction.id)) {
+        found.set(transaction.id, transaction);
       }
     }
   }
 
-  return {
-    assetGroups,
-    totalBalance,
-  };
+  return found;
 }
 
 /**
- * Handler for asset_create tool
- * Creates a new asset/account
+ * Locates a transaction by ID
+ * @throws {APIError} If the transaction is not found
  */
-export async function handleAssetCreate(
+async function findTransactionById(
   httpClient: HttpClient,
-  input: unknown,
-): Promise<AssetOperationResponse> {
-  const validated = AssetCreateInputSchema.parse(input);
-
-  const response = await httpClient.post<ApiOperationResponse>("/assetAdd", {
-    assetGroupId: validated.assetGroupId,
-    assetGroupName: validated.assetGroupName,
-    assetName: validated.assetName,
-    assetMoney: validated.assetMoney,
-    linkAssetId: validated.linkAssetId || "",
-    linkAssetName: validated.linkAssetName || "",
-  });
-
-  return {
-    success: response.success !== false && response.result !== "fail",
-    assetId: response.assetId,
-    message: response.message,
-  };
+  id: string,
+  options: FindTransactionOptions,
+): Promise<Transaction> {
+  const found = await findTransactionsByIds(httpClient, [id], options);
+  const transaction = found.get(id);
+  if (!transaction) {
+    throw APIError.notFound("Transaction", id);
+  }
+  return transaction;
 }
 
 /**
- * Handler for asset_update tool
- * Modifies an existing asset
+ * Handler for transaction_get tool
+ * Retrieves a single transaction by ID
  */
-export async function handleAssetUpdate(
+export async function handleTransactionGet(
   httpClient: HttpClient,
   input: unknown,
-): Promise<AssetOperationResponse> {
-  const validated = AssetUpdateInputSchema.parse(input);
+): Promise<Transaction> {
+  const validated = TransactionGetInputSchema.parse(input);
 
-  const response = await httpClient.post<ApiOperationResponse>("/assetModify", {
-    assetId: validated.assetId,
-    assetGroupId: validated.assetGroupId,
-    assetGroupName: validated.assetGroupName,
-    assetName: validated.assetName,
-    assetMoney: validated.assetMoney,
-    linkAssetId: validated.linkAssetId || "",
-    linkAssetName: validated.linkAssetName || "",
+  return findTransactionById(httpClient, validated.id, {
+    mbid: await resolveMbid(httpClient, validated.mbid),
+    date: validated.date,
+    lookbackMonths: validated.lookbackMonths,
   });
-
-  return {
-    success: response.success !== false && response.result !== "fail",
-    assetId: validated.assetId,
-    message: response.message,
-  };
 }
 
 /**
- * Handler for asset_delete tool
- * Removes an asset
+ * Posts a transaction to /create
  */
-export async function handleAssetDelete(
+async function postTransactionCreate(
   httpClient: HttpClient,
-  input: unknown,
-): Promise<AssetOperationResponse> {
-  const validated = AssetDeleteInputSchema.parse(input);
-
-  const response = await httpClient.post<ApiOperationResponse>("/removeAsset", {
-    assetId: validated.assetId,
+  transaction: TransactionCreateInput,
+): Promise<ApiOperationResponse> {
+  return httpClient.post<ApiOperationResponse>("/create", {
+    mbDate: transaction.mbDate,
+    assetId: transaction.assetId,
+    payType: transaction.payType,
+    mcid: transaction.mcid,
+    mbCategory: transaction.mbCategory,
+    mbCash: transaction.mbCash,
+    inOutCode: transaction.inOutCode,
+    inOutType: transaction.inOutType,
+    mcscid: transaction.mcscid || "",
+    subCategory: transaction.subCategory || "",
+    mbContent: transaction.mbContent || "",
+    mbDetailContent: transaction.mbDetailContent || "",
+  });
+}
+
+/**
+ * Suggests a category for a transaction draft
+ */
+type Categorizer = (
+  draft: TransactionCreateToolInput,
+  extraRules?: CategoryRule[],
+) => Promise<CategorySuggestion | undefined>;
+
+/**
+ * Loads the recent transactions that category learning draws on
+ */
+async function loadCategoryHistory(
+  httpClient: HttpClient,
+  months: number,
+): Promise<Transaction[]> {
+  const endDate = today();
+  const { transactions } = await fetchTransactions(httpClient, {
+    startDate: startOfMonth(endDate, 1 - months),
+    endDate,
+    mbid: await resolveMbid(httpClient),
+  });
+  return transactions;
+}
+
+/**
+ * Creates a categorizer for one tool call
+ * Configured rules (after any extra rules passed in) are tried first; the
+ * transaction history is only fetched, once, when no rule applies.
+ */
+function createCategorizer(
+  httpClient: HttpClient,
+  initData: InitDataResponse,
+): Categorizer {
+  const settings = getConfig().categorization;
+  let history: Promise<Transaction[]> | undefined;
+
+  return async (draft, extraRules = []) => {
+    const input = {
+      ...draft,
+      assetName:
+        draft.assetName ??
+        initData.assetNames.find((a) => a.assetId === draft.assetId)?.assetName,
+    };
+
+    const rule = findCategoryRule(
+      [...extraRules, ...(settings?.rules ?? [])],
+      input,
+    );
+    if (rule) {
+      return {
+        source: "rule",
+        mbCategory: rule.category,
+        subCategory: rule.subCategory,
+      };
+    }
+
+    if (settings?.learnFromHistory === false) {
+      return undefined;
+    }
+    history ??= loadCategoryHistory(httpClient, settings?.historyMonths ?? 6);
+    return suggestCategoryFromHistory(input, await history);
+  };
+}
+
+/**
+ * Fills in the category of a draft that has none
+ * A subcategory given by the caller is kept.
+ * @returns The categorized draft, or undefined if nothing suggested a category
+ */
+async function categorizeDraft(
+  draft: TransactionCreateToolInput,
+  categorize: Categorizer,
+  extraRules?: CategoryRule[],
+): Promise<
+  | { draft: TransactionCreateToolInput; source: CategorySuggestion["source"] }
+  | undefined
+> {
+  const suggestion = await categorize(draft, extraRules);
+  if (!suggestion) {
+    return undefined;
+  }
+
+  return {
+    draft: {
+      ...draft,
+      mcid: suggestion.mcid,
+      mbCategory: suggestion.mbCategory,
+      mcscid: draft.subCategory ? draft.mcscid : suggestion.mcscid,
+      subCategory: draft.subCategory || suggestion.subCategory,
+    },
+    source: suggestion.source,
+  };
+}
+
+/**
+ * Checks whether a draft names no category
+ */
+function needsCategory(draft: TransactionCreateToolInput): boolean {
+  return !draft.mcid && !draft.mbCategory;
+}
+
+/**
+ * Fills in the IDs and, when missing, the category of a transaction draft
+ * Names are resolved only when IDs are missing, so callers passing server IDs
+ * do not pay for an extra init data request.
+ * @throws {ValidationError} If a name does not resolve or no category can be
+ *   picked
+ */
+async function resolveTransactionDraft(
+  httpClient: HttpClient,
+  draft: TransactionCreateToolInput,
+): Promise<{
+  transaction: TransactionCreateInput;
+  categorySource?: CategorySuggestion["source"];
+}> {
+  if (hasServerIds(draft)) {
+    return { transaction: draft };
+  }
+
+  const initData = await handleInitGetData(httpClient, {});
+  if (!needsCategory(draft)) {
+    return { transaction: resolveTransactionCreateInput(draft, initData) };
+  }
+
+  const categorized = await categorizeDraft(
+    draft,
+    createCategorizer(httpClient, initData),
+  );
+  if (!categorized) {
+    throw ValidationError.uncategorized(draft.mbContent);
+  }
+  return {
+    transaction: resolveTransactionCreateInput(categorized.draft, initData),
+    categorySource: categorized.source,
+  };
+}
+
+/**
+ * Handler for transaction_create tool
+ * Creates a new income or expense transaction
+ */
+export async function handleTransactionCreate(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<TransactionOperationResponse> {
+  const validated = TransactionCreateToolInputSchema.parse(input);
+  const policy = resolveDuplicatePolicy(validated.duplicatePolicy);
+
+  const draft = validated.tags
+    ? {
+        ...validated,
+        mbDetailContent: addTags(validated.mbDetailContent, validated.tags),
+      }
+    : validated;
+  const { transaction, categorySource } = await resolveTransactionDraft(
+    httpClient,
+    draft,
+  );
+  const resolved =
+    transaction === draft
+      ? undefined
+      : {
+          assetId: transaction.assetId,
+          payType: transaction.payType,
+          mcid: transaction.mcid,
+          mbCategory: transaction.mbCategory,
+          mcscid: transaction.mcscid,
+          subCategory: transaction.subCategory,
+          inOutType: transaction.inOutType,
+          categorySource,
+        };
+
+  const scan = await detectDuplicates(httpClient, [transaction], policy);
+  const [matches = []] = scan.matches;
+  const duplicates = matches.length > 0 ? matches : undefined;
+
+  if (duplicates && policy === "block") {
+    throw ValidationError.duplicateTransaction(duplicates);
+  }
+  if (duplicates && policy === "skip") {
+    return {
+      success: true,
+      skipped: true,
+      duplicates,
+      message: `Not created: duplicate of existing transaction ${duplicates.join(", ")}`,
+      resolved,
+    };
+  }
+
+  const response = await postTransactionCreate(httpClient, transaction);
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    transactionId: response.id,
+    message: duplicates
+      ? `Possible duplicate of existing transaction ${duplicates.join(", ")}`
+      : response.message,
+    duplicates,
+    resolved,
+    warnings: scan.warnings,
+  };
+}
+
+/**
+ * Resolves the duplicate policy for a call, falling back to the configuration
+ */
+function resolveDuplicatePolicy(policy?: DuplicatePolicy): DuplicatePolicy {
+  return policy ?? getConfig().duplicates?.policy ?? "warn";
+}
+
+/**
+ * Existing duplicates found for a list of new transactions
+ */
+interface DuplicateScan {
+  /** IDs of existing duplicates, by transaction index */
+  matches: string[][];
+  /** Set when part or all of the check was skipped */
+  warnings?: string[];
+}
+
+/**
+ * Finds the IDs of existing transactions that each candidate would duplicate
+ * Fetches the candidates' date range widened by the configured window; no
+ * request is made when the policy is "off". The server hangs on ranges
+ * without transactions, so a window that times out is not retried and
+ * counts as empty; the check is then reported as skipped instead of holding
+ * up the create.
+ */
+async function detectDuplicates(
+  httpClient: HttpClient,
+  candidates: TransactionCreateInput[],
+  policy: DuplicatePolicy,
+): Promise<DuplicateScan> {
+  if (policy === "off" || candidates.length === 0) {
+    return { matches: candidates.map(() => []) };
+  }
+
+  const windowDays = getConfig().duplicates?.windowDays ?? 1;
+  const dates = candidates.map((c) => c.mbDate).sort();
+  const range = {
+    startDate: addDays(dates[0] as string, -windowDays),
+    endDate: addDays(dates[dates.length - 1] as string, windowDays),
+  };
+
+  let existing: TransactionListResponse;
+  try {
+    existing = await fetchTransactions(
+      httpClient,
+      { ...range, mbid: await resolveMbid(httpClient) },
+      { retryCount: 0 },
+    );
+  } catch (error) {
+    if (!isTimeoutError(error)) {
+      throw error;
+    }
+    return {
+      matches: candidates.map(() => []),
+      warnings: [
+        `Duplicate check skipped: the request for ${range.startDate} to ${range.endDate} timed out`,
+      ],
+    };
+  }
+
+  return {
+    matches: candidates.map((candidate) =>
+      findDuplicatesOf(candidate, existing.transactions, windowDays).map(
+        (t) => t.id,
+      ),
+    ),
+    warnings: existing.warnings?.map(
+      (warning) => `Duplicate check incomplete: ${warning}`,
+    ),
+  };
+}
+
+/**
+ * Duplicate check results passed to createTransactions
+ */
+interface DuplicateCheck {
+  policy: DuplicatePolicy;
+  /** IDs of existing duplicates, by transaction index */
+  matches: string[][];
+}
+
+/**
+ * Posts transactions to /create with limited concurrency
+ * Failures are reported per item; with `stopOnError`, items not yet started
+ * after a failure are marked as skipped. Items with duplicates are skipped
+ * or rejected according to the duplicate policy.
+ */
+async function createTransactions(
+  httpClient: HttpClient,
+  transactions: TransactionCreateInput[],
+  options: {
+    concurrency: number;
+    stopOnError: boolean;
+    duplicates?: DuplicateCheck;
+  },
+): Promise<TransactionBatchItemResult[]> {
+  let stopped = false;
+
+  return mapWithConcurrency(
+    transactions,
+    options.concurrency,
+    async (transaction, index): Promise<TransactionBatchItemResult> => {
+      if (stopped) {
+        return { index, success: false, skipped: true };
+      }
+
+      const policy = options.duplicates?.policy ?? "off";
+      const matches = options.duplicates?.matches[index] ?? [];
+      const duplicates = matches.length > 0 ? matches : undefined;
+      if (duplicates && policy === "skip") {
+        return { index, success: false, skipped: true, duplicates };
+      }
+
+      let failure: McpError;
+      if (duplicates && policy === "block") {
+        failure = ValidationError.duplicateTransaction(duplicates);
+      } else {
+        try {
+          const response = await postTransactionCreate(httpClient, transaction);
+          if (response.success !== false && response.result !== "fail") {
+            return {
+              index,
+              success: true,
+              transactionId: response.id,
+              duplicates,
+            };
+          }
+          failure = APIError.badRequest(
+            response.message ?? "Transaction was rejected by the server",
+          );
+        } catch (error) {
+          failure = wrapError(error);
+        }
+      }
+
+      if (options.stopOnError) {
+        stopped = true;
+      }
+      return {
+        index,
+        success: false,
+        duplicates,
+        error: { code: failure.code, message: failure.message },
+      };
+    },
+  );
+}
+
+/**
+ * Handler for transaction_create_batch tool
+ * Creates several transactions with limited concurrency and reports the
+ * outcome of each item
+ */
+export async function handleTransactionCreateBatch(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<TransactionBatchResponse> {
+  const validated = TransactionCreateBatchInputSchema.parse(input);
+
+  // Resolve names for every item before posting anything, so a bad name
+  // cannot leave the batch half-created
+  let initData: InitDataResponse | undefined;
+  const transactions: TransactionCreateInput[] = [];
+  let categorize: Categorizer | undefined;
+  for (const [index, item] of validated.items.entries()) {
+    if (hasServerIds(item)) {
+      transactions.push(item);
+      continue;
+    }
+    initData ??= await handleInitGetData(httpClient, {});
+    try {
+      let draft: TransactionCreateToolInput = item;
+      if (needsCategory(item)) {
+        categorize ??= createCategorizer(httpClient, initData);
+        const categorized = await categorizeDraft(item, categorize);
+        if (!categorized) {
+          throw ValidationError.uncategorized(item.mbContent);
+        }
+        draft = categorized.draft;
+      }
+      transactions.push(resolveTransactionCreateInput(draft, initData));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(
+          `Item ${index}: ${error.message}`,
+          `items.${index}.${error.field ?? ""}`,
+          error.expected,
+          error.received,
+        );
+      }
+      throw error;
+    }
+  }
+
+  const policy = resolveDuplicatePolicy(validated.duplicatePolicy);
+  const { matches, warnings } = await detectDuplicates(
+    httpClient,
+    transactions,
+    policy,
+  );
+  const results = await createTransactions(httpClient, transactions, {
+    concurrency: validated.concurrency,
+    stopOnError: validated.stopOnError,
+    duplicates: { policy, matches },
+  });
+
+  const created = results.filter((r) => r.success).length;
+  const skipped = results.filter((r) => r.skipped).length;
+
+  const failed = results.filter((r) => !r.success && !r.skipped).length;
+
+  return {
+    success: failed === 0,
+    total: results.length,
+    created,
+    failed,
+    skipped,
+    results,
+    warnings,
+  };
+}
+
+/**
+ * Handler for transaction_create_split tool
+ * Creates one transaction per category/amount part, all tagged with the same
+ * split marker. If a part fails, the parts already created are deleted again
+ * so no partial split is left behind.
+ */
+export async function handleTransactionCreateSplit(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<TransactionSplitResponse> {
+  const validated = TransactionCreateSplitInputSchema.parse(input);
+
+  // Compare in cents so 0.1 + 0.2 adds up to 0.3
+  const partsTotal = validated.parts.reduce(
+    (sum, part) => sum + Math.round(part.mbCash * 100),
+    0,
+  );
+  if (partsTotal !== Math.round(validated.total * 100)) {
+    throw ValidationError.invalidField(
+      "parts",
+      `amounts adding up to the total of ${validated.total}`,
+      partsTotal / 100,
+    );
+  }
+
+  const splitId = createSplitId();
+  const initData = await handleInitGetData(httpClient, {});
+  const categorize = createCategorizer(httpClient, initData);
+  const transactions: TransactionCreateInput[] = [];
+  for (const [index, part] of validated.parts.entries()) {
+    const draft: TransactionCreateToolInput = {
+      mbDate: validated.mbDate,
+      assetId: validated.assetId,
+      assetName: validated.assetName,
+      payType: validated.payType,
+      inOutCode: validated.inOutCode,
+      inOutType: validated.inOutType,
+      mcid: part.mcid,
+      mbCategory: part.mbCategory,
+      mcscid: part.mcscid,
+      subCategory: part.subCategory,
+      mbCash: part.mbCash,
+      mbContent: part.mbContent ?? validated.mbContent,
+      mbDetailContent: addSplitMarker(
+        part.mbDetailContent ?? validated.mbDetailContent,
+        splitId,
+      ),
+    };
+
+    try {
+      const categorized = needsCategory(draft)
+        ? await categorizeDraft(draft, categorize)
+        : { draft };
+      if (!categorized) {
+        throw ValidationError.uncategorized(draft.mbContent);
+      }
+      transactions.push(
+        resolveTransactionCreateInput(categorized.draft, initData),
+      );
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(
+          `Part ${index}: ${error.message}`,
+          `parts.${index}.${error.field ?? ""}`,
+          error.expected,
+          error.received,
+        );
+      }
+      throw error;
+    }
+  }
+
+  const results = await createTransactions(httpClient, transactions, {
+    concurrency: 1,
+    stopOnError: true,
+  });
+  const createdIds = results.flatMap((r) =>
+    r.success && r.transactionId ? [r.transactionId] : [],
+  );
+  const response = {
+    splitId,
+    total: validated.total,
+    created: createdIds.length,
+    results,
+  };
+
+  if (results.every((r) => r.success)) {
+    return { ...response, success: true };
+  }
+  if (createdIds.length === 0) {
+    return { ...response, success: false, message: "No part was created" };
+  }
+
+  try {
+    await postTransactionDelete(httpClient, createdIds);
+  } catch (error) {
+    return {
+      ...response,
+      success: false,
+      message: `A part failed and the parts already created (${createdIds.join(", ")}) could not be deleted: ${wrapError(error).message}`,
+    };
+  }
+  return {
+    ...response,
+    success: false,
+    created: 0,
+    rolledBack: createdIds,
+    message: "A part failed; the parts already created were deleted",
+  };
+}
+
+/**
+ * Locates the parts of a split by the marker in their notes
+ * The parts share a date, so they are found in the same window.
+ * @throws {APIError} If no part is found
+ */
+async function findSplitParts(
+  httpClient: HttpClient,
+  validated: TransactionUpdateSplitToolInput,
+): Promise<Transaction[]> {
+  const endDate = validated.originalDate ?? today();
+  const { transactions } = await fetchTransactions(httpClient, {
+    startDate:
+      validated.originalDate ??
+      startOfMonth(endDate, 1 - validated.lookbackMonths),
+    endDate,
+    mbid: await resolveMbid(httpClient, validated.mbid),
+  });
+
+  const splitId = validated.splitId.toLowerCase();
+  const parts = transactions.filter(
+    (t) => parseSplitId(t.mbDetailContent) === splitId,
+  );
+  if (parts.length === 0) {
+    throw APIError.notFound("Split", validated.splitId);
+  }
+  return parts;
+}
+
+/**
+ * Handler for transaction_update_split tool
+ * Changes the date, asset, payment type, description or amounts of every
+ * part of a split at once, keeping the parts adding up to the total. If a
+ * part fails, the parts already updated are changed back.
+ */
+export async function handleTransactionUpdateSplit(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<TransactionSplitUpdateResponse> {
+  const validated = TransactionUpdateSplitInputSchema.parse(input);
+
+  const parts = await findSplitParts(httpClient, validated);
+  const amounts = splitPartAmounts(parts, validated);
+
+  const planned: { part: Transaction; updated: TransactionUpdateInput }[] = [];
+  const results: TransactionSplitPartResult[] = [];
+  for (const part of parts) {
+    const updated = await mergeTransactionPatch(httpClient, part, {
+      id: part.id,
+      mbDate: validated.mbDate,
+      assetId: validated.assetId,
+      assetName: validated.assetName,
+      payType: validated.payType,
+      mbContent: validated.mbContent,
+      mbCash: (amounts.get(part.id) ?? 0) / 100,
+      lookbackMonths: validated.lookbackMonths,
+    });
+    const changes = diffTransactions(part, updated);
+    if (Object.keys(changes).length > 0) {
+      planned.push({ part, updated });
+      results.push({ transactionId: part.id, success: false, changes });
+    }
+  }
+
+  const total = roundAmount(
+    [...amounts.values()].reduce((sum, cents) => sum + cents, 0) / 100,
+  );
+  const response = { splitId: validated.splitId, total, results };
+  if (planned.length === 0) {
+    return {
+      ...response,
+      success: true,
+      updated: 0,
+      previous: [],
+      message: "No changes to apply",
+    };
+  }
+
+  const previous: Transaction[] = [];
+  let failed = false;
+  for (const [index, { part, updated }] of planned.entries()) {
+    const result = results[index] as TransactionSplitPartResult;
+    if (failed) {
+      result.skipped = true;
+      continue;
+    }
+
+    let failure: McpError;
+    try {
+      const posted = await postTransactionUpdate(httpClient, updated);
+      if (posted.success !== false && posted.result !== "fail") {
+        result.success = true;
+        previous.push(part);
+        continue;
+      }
+      failure = APIError.badRequest(
+        posted.message ?? "Transaction was rejected by the server",
+      );
+    } catch (error) {
+      failure = wrapError(error);
+    }
+    result.error = { code: failure.code, message: failure.message };
+    failed = true;
+  }
+
+  if (!failed) {
+    return { ...response, success: true, updated: previous.length, previous };
+  }
+  if (previous.length === 0) {
+    return {
+      ...response,
+      success: false,
+      updated: 0,
+      previous,
+      message: "No part was updated",
+    };
+  }
+
+  const rolledBack: string[] = [];
+  try {
+    for (const part of previous) {
+      const reverted = await postTransactionUpdate(httpClient, part);
+      if (reverted.success === false || reverted.result === "fail") {
+        throw APIError.badRequest(
+          reverted.message ?? "Transaction was rejected by the server",
+        );
+      }
+      rolledBack.push(part.id);
+    }
+  } catch (error) {
+    const left = previous.filter((part) => !rolledBack.includes(part.id));
+    return {
+      ...response,
+      success: false,
+      updated: left.length,
+      previous: left,
+      rolledBack,
+      message: `A part failed and the parts already updated (${left.map((p) => p.id).join(", ")}) could not be changed back: ${wrapError(error).message}`,
+    };
+  }
+  return {
+    ...response,
+    success: false,
+    updated: 0,
+    previous: [],
+    rolledBack,
+    message: "A part failed; the parts already updated were changed back",
+  };
+}
+
+/**
+ * Reads a local text file
+ * @throws {FileError} If the file is missing or cannot be read
+ */
+function readTextFile(filePath: string): string {
+  if (!fs.existsSync(filePath)) {
+    throw FileError.notFound(filePath);
+  }
+  try {
+    return fs.readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw FileError.readFailed(
+      filePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Resolves the asset statement rows are booked to
+ * Its name is also the default payment type for imported transactions.
+ */
+function resolveImportAsset(
+  initData: InitDataResponse,
+  assetId: string | undefined,
+  assetName: string | undefined,
+): Pick<AssetName, "assetId" | "assetName"> {
+  if (assetId) {
+    return (
+      initData.assetNames.find((a) => a.assetId === assetId) ?? {
+        assetId,
+        assetName: assetName ?? assetId,
+      }
+    );
+  }
+  if (assetName) {
+    return findOneByName(
+      "assetName",
+      assetName,
+      initData.assetNames,
+      (a) => a.assetName,
+    );
+  }
+  throw ValidationError.requiredField("assetId or assetName");
+}
+
+/**
+ * Resolves an import draft, reporting name resolution failures on the row
+ */
+function resolveImportRow(
+  line: number,
+  draft: TransactionCreateToolInput,
+  initData: InitDataResponse,
+): ImportRowResult {
+  try {
+    return {
+      line,
+      status: "ready",
+      transaction: resolveTransactionCreateInput(draft, initData),
+    };
+  } catch (error) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
+    }
+    return { line, status: "invalid", error: error.message };
+  }
+}
+
+/**
+ * Creates the ready rows of an import (unless in dry-run mode) and
+ * summarizes the outcome
+ * Rows that duplicate existing transactions are handled according to the
+ * duplicate policy, in dry-run mode as well.
+ */
+async function completeImport(
+  httpClient: HttpClient,
+  rows: ImportRowResult[],
+  options: {
+    dryRun: boolean;
+    concurrency: number;
+    duplicatePolicy?: DuplicatePolicy;
+  },
+): Promise<ImportResponse> {
+  const ready = rows.filter(
+    (row): row is ImportRowResult & { transaction: TransactionCreateInput } =>
+      row.status === "ready" && !!row.transaction,
+  );
+  const transactions = ready.map((row) => row.transaction);
+  const policy = resolveDuplicatePolicy(options.duplicatePolicy);
+  const { matches, warnings } = await detectDuplicates(
+    httpClient,
+    transactions,
+    policy,
+  );
+
+  if (options.dryRun) {
+    ready.forEach((row, index) => {
+      const duplicates = matches[index] ?? [];
+      if (duplicates.length === 0) {
+        return;
+      }
+      row.duplicates = duplicates;
+      if (policy === "skip") {
+        row.status = "skipped";
+      } else if (policy === "block") {
+        row.status = "failed";
+        row.error = ValidationError.duplicateTransaction(duplicates).message;
+      }
+    });
+  } else {
+    const results = await createTransactions(httpClient, transactions, {
+      concurrency: options.concurrency,
+      stopOnError: false,
+      duplicates: { policy, matches },
+    });
+    results.forEach((result, index) => {
+      const row = ready[index] as ImportRowResult;
+      row.status = result.success
+        ? "created"
+        : result.skipped
+          ? "skipped"
+          : "failed";
+      row.transactionId = result.transactionId;
+      row.duplicates = result.duplicates;
+      row.error = result.error?.message;
+    });
+  }
+
+  const count = (status: ImportRowStatus): number =>
+    rows.filter((r) => r.status === status).length;
+
+  return {
+    success: count("failed") === 0 && count("invalid") === 0,
+    dryRun: options.dryRun,
+    total: rows.length,
+    created: count("created"),
+    failed: count("failed"),
+    skipped: count("skipped"),
+    invalid: count("invalid"),
+    rows,
+    warnings,
+  };
+}
+
+/**
+ * Handler for transaction_import_csv tool
+ * Maps a bank CSV statement through a configured profile and creates the
+ * resulting transactions, or previews them in dry-run mode
+ */
+export async function handleTransactionImportCsv(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<ImportResponse> {
+  const validated = TransactionImportCsvInputSchema.parse(input);
+
+  const profiles = getConfig().imports?.csvProfiles ?? {};
+  const profile = profiles[validated.profile];
+  if (!profile) {
+    throw ValidationError.noMatch(
+      "profile",
+      validated.profile,
+      Object.keys(profiles),
+    );
+  }
+
+  const statement = readCsvStatement(
+    readTextFile(validated.filePath),
+    profile,
+  ).filter(
+    (row) =>
+      "error" in row ||
+      ((!validated.startDate || row.mbDate >= validated.startDate) &&
+        (!validated.endDate || row.mbDate <= validated.endDate)),
+  );
+
+  const initData = await handleInitGetData(httpClient, {});
+  const asset = resolveImportAsset(
+    initData,
+    validated.assetId ?? (validated.assetName ? undefined : profile.assetId),
+    validated.assetName ?? profile.assetName,
+  );
+
+  const categorize = createCategorizer(httpClient, initData);
+  const rows: ImportRowResult[] = [];
+  for (const entry of statement) {
+    if ("error" in entry) {
+      rows.push({ line: entry.line, status: "invalid", error: entry.error });
+      continue;
+    }
+
+    const draft: TransactionCreateToolInput = {
+      mbDate: entry.mbDate,
+      assetId: asset.assetId,
+      payType: profile.payType ?? asset.assetName,
+      mbCash: entry.mbCash,
+      inOutCode: entry.inOutCode,
+      mbContent: entry.mbContent,
+      mbDetailContent: entry.mbDetailContent,
+    };
+
+    // Profile rules, then configured rules and history, then the default
+    const categorized = await categorizeDraft(draft, categorize, profile.rules);
+    const defaultCategory =
+      entry.inOutCode === InOutCode.INCOME
+        ? profile.defaultIncomeCategory
+        : profile.defaultExpenseCategory;
+    if (!categorized && !defaultCategory) {
+      rows.push({
+        line: entry.line,
+        status: "invalid",
+        error:
+          "No category rule or similar past transaction matched and the profile has no default category",
+      });
+      continue;
+    }
+
+    rows.push(
+      resolveImportRow(
+        entry.line,
+        categorized?.draft ?? { ...draft, mbCategory: defaultCategory },
+        initData,
+      ),
+    );
+  }
+
+  return completeImport(httpClient, rows, {
+    ...validated,
+    dryRun: validated.dryRun || getConfig().dryRun,
+  });
+}
+
+/**
+ * Local state file recording imported OFX transaction IDs
+ * Maps asset ID to FITID to the created transaction ID, or null when the
+ * server accepted the transaction without returning its ID.
+ */
+const OFX_IMPORTS_FILE = "ofx-imports.json";
+
+/**
+ * Imported FITIDs by asset ID
+ */
+type OfxImportHistory = Record<string, Record<string, string | null>>;
+
+/**
+ * Handler for transaction_import_ofx tool
+ * Creates transactions from the STMTTRN entries of an OFX/QFX statement,
+ * skipping entries whose FITID was already imported into the asset
+ */
+export async function handleTransactionImportOfx(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<ImportResponse> {
+  const validated = TransactionImportOfxInputSchema.parse(input);
+
+  const entries = parseOfxTransactions(readTextFile(validated.filePath));
+  const initData = await handleInitGetData(httpClient, {});
+  const asset = resolveImportAsset(
+    initData,
+    validated.assetId,
+    validated.assetName,
+  );
+
+  const history = readJsonFile<OfxImportHistory>(OFX_IMPORTS_FILE, {});
+  const imported = history[asset.assetId] ?? {};
+  const seen = new Set<string>();
+
+  const categorize = createCategorizer(httpClient, initData);
+  const rows: ImportRowResult[] = [];
+  for (const entry of entries) {
+    if ("error" in entry) {
+      rows.push({
+        line: entry.line,
+        fitId: entry.fitId,
+        status: "invalid",
+        error: entry.error,
+      });
+      continue;
+    }
+
+    if (Object.hasOwn(imported, entry.fitId) || seen.has(entry.fitId)) {
+      rows.push({
+        line: entry.line,
+        fitId: entry.fitId,
+        status: "skipped",
+        transactionId: imported[entry.fitId] ?? undefined,
+        error: "Already imported",
+      });
+      continue;
+    }
+    seen.add(entry.fitId);
+
+    if (entry.amount === 0) {
+      rows.push({
+        line: entry.line,
+        fitId: entry.fitId,
+        status: "invalid",
+        error: "Entry has a zero amount",
+      });
+      continue;
+    }
+
+    const inOutCode = entry.amount < 0 ? InOutCode.EXPENSE : InOutCode.INCOME;
+    const draft: TransactionCreateToolInput = {
+      mbDate: entry.datePosted,
+      assetId: asset.assetId,
+      payType: validated.payType ?? asset.assetName,
+      mbCash: Math.abs(entry.amount),
+      inOutCode,
+      mbContent: entry.name ?? entry.memo ?? "",
+      mbDetailContent:
+        entry.memo && entry.memo !== entry.name ? entry.memo : undefined,
+    };
+
+    // Rules and history first, then the category given for this import
+    const categorized = await categorizeDraft(draft, categorize);
+    const defaultCategory =
+      inOutCode === InOutCode.INCOME
+        ? validated.incomeCategory
+        : validated.expenseCategory;
+    if (!categorized && !defaultCategory) {
+      rows.push({
+        line: entry.line,
+        fitId: entry.fitId,
+        status: "invalid",
+        error: `No category rule or similar past transaction matched and no ${inOutCode === InOutCode.INCOME ? "income" : "expense"} category was given`,
+      });
+      continue;
+    }
+
+    const row = resolveImportRow(
+      entry.line,
+      categorized?.draft ?? { ...draft, mbCategory: defaultCategory },
+      initData,
+    );
+    rows.push({ ...row, fitId: entry.fitId });
+  }
+
+  const response = await completeImport(httpClient, rows, {
+    ...validated,
+    dryRun: validated.dryRun || getConfig().dryRun,
+  });
+
+  const created = rows.filter((row) => row.status === "created");
+  if (created.length > 0) {
+    // Re-read so concurrent imports into other assets are not lost
+    const latest = readJsonFile<OfxImportHistory>(OFX_IMPORTS_FILE, {});
+    const assetHistory = (latest[asset.assetId] ??= {});
+    for (const row of created) {
+      if (row.fitId) {
+        assetHistory[row.fitId] = row.transactionId ?? null;
+      }
+    }
+    writeJsonFile(OFX_IMPORTS_FILE, latest);
+  }
+
+  return response;
+}
+
+/**
+ * Core fields that make a transaction_update input a full replacement
+ */
+const TRANSACTION_UPDATE_FIELDS = [
+  "mbDate",
+  "assetId",
+  "payType",
+  "mcid",
+  "mbCategory",
+  "mbCash",
+  "inOutCode",
+  "inOutType",
+] as const;
+
+/**
+ * Fields compared when reporting the changes made by a patch update
+ */
+const TRANSACTION_DIFF_FIELDS = [
+  ...TRANSACTION_UPDATE_FIELDS,
+  "mcscid",
+  "subCategory",
+  "mbContent",
+  "mbDetailContent",
+] as const;
+
+/**
+ * Checks whether a transaction_update input carries every core field
+ */
+function isFullUpdate(
+  input: TransactionUpdateToolInput,
+): input is TransactionUpdateToolInput & TransactionUpdateInput {
+  return (
+    !input.assetName &&
+    TRANSACTION_UPDATE_FIELDS.every((field) => input[field] !== undefined)
+  );
+}
+
+/**
+ * Merges a patch into an existing transaction
+ * Asset, category and subcategory names given without an ID are resolved
+ * from init data; a new category clears the old subcategory. Tags replace
+ * the hashtags in the notes.
+ */
+async function mergeTransactionPatch(
+  httpClient: HttpClient,
+  existing: Transaction,
+  patch: TransactionUpdateToolInput,
+): Promise<TransactionUpdateInput> {
+  const categoryByName = !!patch.mbCategory && !patch.mcid;
+  const categoryChanged = !!patch.mcid || categoryByName;
+  const subCategoryByName = !!patch.subCategory && !patch.mcscid;
+  const assetByName = !!patch.assetName && !patch.assetId;
+
+  const merged: TransactionUpdateInput = {
+    id: existing.id,
+    mbDate: patch.mbDate ?? existing.mbDate,
+    assetId: patch.assetId ?? existing.assetId,
+    payType: patch.payType ?? existing.payType,
+    mcid: patch.mcid ?? existing.mcid,
+    mbCategory: patch.mbCategory ?? existing.mbCategory,
+    mbCash: patch.mbCash ?? existing.mbCash,
+    inOutCode: patch.inOutCode ?? existing.inOutCode,
+    inOutType: patch.inOutType ?? existing.inOutType,
+    mcscid:
+      patch.mcscid ??
+      (categoryChanged || subCategoryByName ? undefined : existing.mcscid),
+    subCategory:
+      patch.subCategory ?? (categoryChanged ? undefined : existing.subCategory),
+    mbContent: patch.mbContent ?? existing.mbContent,
+    mbDetailContent: patch.tags
+      ? setTags(patch.mbDetailContent ?? existing.mbDetailContent, patch.tags)
+      : (patch.mbDetailContent ?? existing.mbDetailContent),
+  };
+
+  if (!categoryByName && !subCategoryByName && !assetByName) {
+    return merged;
+  }
+
+  const { inOutCode } = merged;
+  if (inOutCode !== InOutCode.INCOME && inOutCode !== InOutCode.EXPENSE) {
+    throw ValidationError.invalidField(
+      "inOutCode",
+      "0 (income) or 1 (expense) when updating by name; pass IDs instead",
+      inOutCode,
+    );
+  }
+
+  const resolved = resolveTransactionCreateInput(
+    {
+      ...merged,
+      inOutCode,
+      assetId: assetByName ? undefined : merged.assetId,
+      assetName: patch.assetName,
+      mcid: categoryByName ? undefined : merged.mcid,
+    },
+    await handleInitGetData(httpClient, {}),
+  );
+
+  return { id: existing.id, ...resolved };
+}
+
+/**
+ * Lists the fields that differ between a transaction and its update
+ * Empty optional fields are treated as equal to missing ones.
+ */
+function diffTransactions(
+  before: Transaction,
+  after: TransactionUpdateInput,
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+
+  for (const field of TRANSACTION_DIFF_FIELDS) {
+    const previous = before[field] ?? "";
+    const next = after[field] ?? "";
+    if (previous !== next) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Posts a complete transaction payload to /update
+ */
+async function postTransactionUpdate(
+  httpClient: HttpClient,
+  transaction: TransactionUpdateInput,
+): Promise<ApiOperationResponse> {
+  return httpClient.post<ApiOperationResponse>("/update", {
+    id: transaction.id,
+    mbDate: transaction.mbDate,
+    assetId: transaction.assetId,
+    payType: transaction.payType,
+    mcid: transaction.mcid,
+    mbCategory: transaction.mbCategory,
+    mbCash: transaction.mbCash,
+    inOutCode: transaction.inOutCode,
+    inOutType: transaction.inOutType,
+    mcscid: transaction.mcscid || "",
+    subCategory: transaction.subCategory || "",
+    mbContent: transaction.mbContent || "",
+    mbDetailContent: transaction.mbDetailContent || "",
+  });
+}
+
+/**
+ * Handler for transaction_update tool
+ * Updates an existing transaction, either with a full set of fields or as a
+ * patch merged into the stored transaction
+ */
+export async function handleTransactionUpdate(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<TransactionOperationResponse> {
+  const validated = TransactionUpdateInputSchema.parse(input);
+
+  if (isFullUpdate(validated)) {
+    const response = await postTransactionUpdate(
+      httpClient,
+      validated.tags
+        ? {
+            ...validated,
+            mbDetailContent: setTags(validated.mbDetailContent, validated.tags),
+          }
+        : validated,
+    );
+
+    return {
+      success: response.success !== false && response.result !== "fail",
+      transactionId: validated.id,
+      message: response.message,
+    };
+  }
+
+  const existing = await findTransactionById(httpClient, validated.id, {
+    mbid: await resolveMbid(httpClient, validated.mbid),
+    date: validated.originalDate,
+    lookbackMonths: validated.lookbackMonths,
+  });
+  const updated = await mergeTransactionPatch(httpClient, existing, validated);
+  const changes = diffTransactions(existing, updated);
+
+  if (Object.keys(changes).length === 0) {
+    return {
+      success: true,
+      transactionId: validated.id,
+      message: "No changes to apply",
+      changes,
+    };
+  }
+
+  const response = await postTransactionUpdate(httpClient, updated);
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    transactionId: validated.id,
+    message: response.message,
+    changes,
+    previous: existing,
+  };
+}
+
+/**
+ * Posts transaction IDs to /delete
+ */
+async function postTransactionDelete(
+  httpClient: HttpClient,
+  ids: string[],
+): Promise<ApiOperationResponse> {
+  // Format IDs as colon-separated string (API expects ":id1:id2:id3" format)
+  const idsString = ":" + ids.join(":");
+
+  return httpClient.post<ApiOperationResponse>("/delete", {
+    ids: idsString,
+  });
+}
+
+/**
+ * Checks whether destructive tools must be confirmed with a token
+ */
+function confirmationsEnabled(): boolean {
+  return getConfig().confirmations?.enabled !== false;
+}
+
+/**
+ * Builds the response asking the caller to confirm a destructive call
+ * @param context - Kept with the token for the confirmed call
+ */
+function requestConfirmation<T>(
+  subject: string,
+  summary: T,
+  action: string,
+  context?: unknown,
+): ConfirmationResponse<T> {
+  const { token, expiresAt } = issueConfirmationToken(
+    subject,
+    getConfig().confirmations?.ttlMs,
+    context,
+  );
+
+  return {
+    success: false,
+    confirmationRequired: true,
+    confirmationToken: token,
+    expiresAt,
+    summary,
+    message: `Nothing was changed yet. To ${action}, call the tool again with the same arguments and confirmationToken "${token}" before ${expiresAt}.`,
+  };
+}
+
+/**
+ * Confirmation subject of a transaction_delete call
+ */
+function transactionDeleteSubject(ids: string[]): string {
+  return `transaction_delete:${[...ids].sort().join(",")}`;
+}
+
+/**
+ * Handler for transaction_delete tool
+ * Deletes one or more transactions. Unless confirmations are turned off, the
+ * first call only returns the transactions that would be deleted and a
+ * token; the deletion happens when the call is repeated with that token.
+ */
+export async function handleTransactionDelete(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<
+  TransactionOperationResponse | ConfirmationResponse<TransactionDeleteSummary>
+> {
+  const validated = TransactionDeleteInputSchema.parse(input);
+
+  if (confirmationsEnabled()) {
+    const subject = transactionDeleteSubject(validated.ids);
+
+    if (!validated.confirmationToken) {
+      const found = await findTransactionsByIds(httpClient, validated.ids, {
+        mbid: await resolveMbid(httpClient, validated.mbid),
+        lookbackMonths: validated.lookbackMonths,
+      });
+      const transactions = [...found.values()];
+      const total = (code: InOutCode): number =>
+        roundAmount(
+          transactions
+            .filter((t) => t.inOutCode === code)
+            .reduce((sum, t) => sum + t.mbCash, 0),
+        );
+
+      return requestConfirmation(
+        subject,
+        {
+          transactions,
+          notFound: validated.ids.filter((id) => !found.has(id)),
+          totalIncome: total(InOutCode.INCOME),
+          totalExpense: total(InOutCode.EXPENSE),
+        },
+        `delete ${validated.ids.length} transaction(s)`,
+        transactions,
+      );
+    }
+
+    // A dry run checks the token without using it up
+    redeemConfirmationToken(
+      validated.confirmationToken,
+      subject,
+      !httpClient.isDryRun,
+    );
+  }
+
+  const response = await postTransactionDelete(httpClient, validated.ids);
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    deletedCount: validated.ids.length,
+    message: response.message,
+  };
+}
+
+/**
+ * Handler for transaction_find_duplicates tool
+ * Scans a date range for groups of transactions that duplicate each other
+ */
+export async function handleTransactionFindDuplicates(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<DuplicateScanResponse> {
+  const validated = TransactionFindDuplicatesInputSchema.parse(input);
+  const windowDays =
+    validated.windowDays ?? getConfig().duplicates?.windowDays ?? 1;
+
+  const { transactions, warnings, offlineSource } = await listTransactionsFrom(
+    httpClient,
+    validated,
+  );
+  const groups = findDuplicateGroups(transactions, windowDays);
+
+  return {
+    count: groups.length,
+    scanned: transactions.length,
+    windowDays,
+    groups,
+    warnings,
+    offlineSource,
+  };
+}
+
+// ============================================================================
+// Summary Handlers
+// ============================================================================
+
+/**
+ * Handler for summary_get_period tool
+ * Retrieves financial summary statistics for a date range
+ */
+export async function handleSummaryGetPeriod(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<SummaryResponse> {
+  const validated = SummaryGetPeriodInputSchema.parse(input);
+
+  return withDataSource(
+    validated,
+    async () => {
+      const rawResponse = await httpClient.get<RawSummaryResponse>(
+        "/getSummaryDataByPeriod",
+        {
+          startDate: validated.startDate,
+          endDate: validated.endDate,
+        },
+      );
+
+      return {
+        summary: rawResponse.summary,
+        incomeByCategory: rawResponse.income || [],
+        expenseByCategory: rawResponse.outcome || [],
+      };
+    },
+    (ledger) => ledger.summarize(validated),
+  );
+}
+
+/**
+ * Handler for tag_summary tool
+ * Totals income and expense per tag over a date range. A transaction with
+ * several tags counts towards each of them.
+ */
+export async function handleTagSummary(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<TagSummaryResponse> {
+  const validated = TagSummaryInputSchema.parse(input);
+  const wanted = validated.tags && new Set(validated.tags.map(normalizeTag));
+
+  const { transactions, warnings, offlineSource } = await listTransactionsFrom(
+    httpClient,
+    validated,
+  );
+
+  const totals = new Map<string, TagTotal>();
+  const untagged = { income: 0, expense: 0, net: 0, count: 0 };
+  for (const transaction of transactions) {
+    const { inOutCode, mbCash } = transaction;
+    if (inOutCode !== InOutCode.INCOME && inOutCode !== InOutCode.EXPENSE) {
+      continue;
+    }
+
+    const tags = transaction.tags ?? [];
+    const targets =
+      tags.length === 0
+        ? [untagged]
+        : tags
+            .filter((tag) => !wanted || wanted.has(tag))
+            .map((tag) => {
+              const total = totals.get(tag) ?? {
+                tag,
+                income: 0,
+                expense: 0,
+                net: 0,
+                count: 0,
+              };
+              totals.set(tag, total);
+              return total;
+            });
+
+    for (const total of targets) {
+      if (inOutCode === InOutCode.INCOME) {
+        total.income += mbCash;
+      } else {
+        total.expense += mbCash;
+      }
+      total.count++;
+    }
+  }
+
+  const rounded = <T extends Omit<TagTotal, "tag">>(total: T): T => ({
+    ...total,
+    income: roundAmount(total.income),
+    expense: roundAmount(total.expense),
+    net: roundAmount(total.income - total.expense),
+  });
+
+  return {
+    startDate: validated.startDate,
+    endDate: validated.endDate,
+    tags: [...totals.values()]
+      .map(rounded)
+      .sort((a, b) => b.expense - a.expense || a.tag.localeCompare(b.tag)),
+    untagged: rounded(untagged),
+    warnings,
+    offlineSource,
+  };
+}
+
+/**
+ * Works out a savings rate in percent, to one decimal place
+ */
+function savingsRate(income: number, net: number): number | null {
+  return income > 0 ? Math.round((net / income) * 1000) / 10 : null;
+}
+
+/**
+ * Handler for report_monthly_trend tool
+ * Reports income, expense, net and savings rate per calendar month, with
+ * the change from the previous month and from the same month a year earlier
+ */
+export async function handleReportMonthlyTrend(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<MonthlyTrendResponse> {
+  const validated = ReportMonthlyTrendInputSchema.parse(input);
+  const lastMonth = validated.endMonth
+    ? `${validated.endMonth}-01`
+    : startOfMonth(today());
+
+  // The twelve months before the first reported month are fetched too, for
+  // the month-over-month and year-over-year changes
+  const fetched = validated.months + 12;
+  const monthStarts = Array.from({ length: fetched }, (_, index) =>
+    startOfMonth(lastMonth, index - fetched + 1),
+  );
+  const { concurrency } = getConfig().transactionList ?? {
+    chunkMonths: 1,
+    concurrency: 2,
+  };
+  const summaries = await mapWithConcurrency(
+    monthStarts,
+    concurrency,
+    (startDate) =>
+      handleSummaryGetPeriod(httpClient, {
+        startDate,
+        endDate: endOfMonth(startDate),
+        source: validated.source,
+        backupFile: validated.backupFile,
+      }),
+  );
+
+  const totals = summaries.map(
+    ({ summary }): MonthlyTrendResponse["totals"] => {
+      const income = roundAmount(toNumber(summary.income));
+      const expense = roundAmount(toNumber(summary.outcome));
+      const net = roundAmount(income - expense);
+      return { income, expense, net, savingsRate: savingsRate(income, net) };
+    },
+  );
+  const delta = (index: number, earlier: number): TrendDelta => {
+    const now = totals[index] as MonthlyTrendResponse["totals"];
+    const then = totals[earlier] as MonthlyTrendResponse["totals"];
+    return {
+      income: roundAmount(now.income - then.income),
+      expense: roundAmount(now.expense - then.expense),
+      net: roundAmount(now.net - then.net),
+      savingsRate:
+        now.savingsRate === null || then.savingsRate === null
+          ? null
+          : Math.round((now.savingsRate - then.savingsRate) * 10) / 10,
+    };
+  };
+
+  const months: MonthlyTrend[] = [];
+  for (let index = 12; index < fetched; index++) {
+    const { incomeByCategory, expenseByCategory } = summaries[
+      index
+    ] as SummaryResponse;
+    months.push({
+      month: (monthStarts[index] as string).slice(0, 7),
+      ...(totals[index] as MonthlyTrendResponse["totals"]),
+      monthOverMonth: delta(index, index - 1),
+      yearOverYear: delta(index, index - 12),
+      ...(validated.includeCategories
+        ? { incomeByCategory, expenseByCategory }
+        : {}),
+    });
+  }
+
+  const income = roundAmount(months.reduce((sum, m) => sum + m.income, 0));
+  const expense = roundAmount(months.reduce((sum, m) => sum + m.expense, 0));
+  const net = roundAmount(income - expense);
+  // A fallback to a backup warns once per month; one warning is enough
+  const warnings = [
+    ...new Set(summaries.flatMap((summary) => summary.warnings ?? [])),
+  ];
+
+  return {
+    startMonth: months[0]?.month ?? "",
+    endMonth: lastMonth.slice(0, 7),
+    months,
+    totals: { income, expense, net, savingsRate: savingsRate(income, net) },
+    warnings: warnings.length > 0 ? warnings : undefined,
+    offlineSource: summaries.find((summary) => summary.offlineSource)
+      ?.offlineSource,
+  };
+}
+
+/**
+ * Handler for summary_export_excel tool
+ * Exports transaction data to Excel file
+ *
+ * NOTE: The Money Manager API returns an HTML file with Excel metadata,
+ * not a proper XLSX binary. This format works with .xls extension.
+ * If user provides .xlsx extension, it will be auto-corrected to .xls.
+ */
+export async function handleSummaryExportExcel(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<ExcelExportResponse> {
+  const validated = SummaryExportExcelInputSchema.parse(input);
+
+  // Auto-correct .xlsx extension to .xls since API returns HTML-based Excel format
+  let outputPath = validated.outputPath;
+  let extensionCorrected = false;
+
+  if (outputPath.toLowerCase().endsWith(".xlsx")) {
+    outputPath = outputPath.slice(0, -5) + ".xls";
+    extensionCorrected = true;
+  }
+
+  try {
+    const result = await httpClient.downloadFile("/getExcelFile", outputPath, {
+      startDate: validated.startDate,
+      endDate: validated.endDate,
+      mbid: validated.mbid,
+      assetId: validated.assetId || "",
+      inOutType: validated.inOutType || "",
+    });
+
+    let message = `Excel file exported successfully to ${result.filePath}`;
+    if (extensionCorrected) {
+      message += ` (Note: Extension was changed from .xlsx to .xls because the server returns HTML-based Excel format which requires .xls extension for proper compatibility)`;
+    }
+
+    return {
+      success: true,
+      filePath: result.filePath,
+      fileSize: result.fileSize,
+      message,
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw FileError.writeFailed(outputPath, error.message);
+    }
+    throw wrapError(error);
+  }
+}
+
+// ============================================================================
+// Asset Handlers
+// ============================================================================
+
+/**
+ * Helper to parse string or number to number
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return parseFloat(value) || 0;
+  return 0;
+}
+
+/**
+ * Handler for asset_list tool
+ * Retrieves all assets in a hierarchical structure
+ */
+export async function handleAssetList(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<AssetListResponse> {
+  const validated = AssetListInputSchema.parse(input);
+
+  const { assetGroups, ...source } = await withDataSource(
+    validated,
+    async () => {
+      const rawResponse = await getReferenceCache().getOrLoad("assets", () =>
+        httpClient.get<AssetGroup[]>("/getAssetData"),
+      );
+      return {
+        assetGroups: Array.isArray(rawResponse) ? rawResponse : [],
+      };
+    },
+    (ledger) => ({ assetGroups: ledger.assetGroups() }),
+  );
+
+  // Calculate total balance from all asset groups
+  let totalBalance = 0;
+
+  for (const group of assetGroups) {
+    if (group.children) {
+      for (const asset of group.children) {
+        // API returns assetMoney as string, need to parse it
+        totalBalance += toNumber(asset.assetMoney);
+      }
+    }
+  }
+
+  return {
+    assetGroups,
+    totalBalance,
+    ...source,
+  };
+}
+
+/**
+ * Handler for asset_create tool
+ * Creates a new asset/account
+ */
+export async function handleAssetCreate(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<AssetOperationResponse> {
+  const validated = AssetCreateInputSchema.parse(input);
+
+  const response = await httpClient.post<ApiOperationResponse>("/assetAdd", {
+    assetGroupId: validated.assetGroupId,
+    assetGroupName: validated.assetGroupName,
+    assetName: validated.assetName,
+    assetMoney: validated.assetMoney,
+    linkAssetId: validated.linkAssetId || "",
+    linkAssetName: validated.linkAssetName || "",
+  });
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    assetId: response.assetId,
+    message: response.message,
+  };
+}
+
+/**
+ * Handler for asset_update tool
+ * Modifies an existing asset
+ */
+export async function handleAssetUpdate(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<AssetOperationResponse> {
+  const validated = AssetUpdateInputSchema.parse(input);
+
+  const response = await httpClient.post<ApiOperationResponse>("/assetModify", {
+    assetId: validated.assetId,
+    assetGroupId: validated.assetGroupId,
+    assetGroupName: validated.assetGroupName,
+    assetName: validated.assetName,
+    assetMoney: validated.assetMoney,
+    linkAssetId: validated.linkAssetId || "",
+    linkAssetName: validated.linkAssetName || "",
+  });
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    assetId: validated.assetId,
+    message: response.message,
+  };
+}
+
+/**
+ * Posts an asset ID to /removeAsset
+ */
+async function postAssetDelete(
+  httpClient: HttpClient,
+  assetId: string,
+): Promise<ApiOperationResponse> {
+  return httpClient.post<ApiOperationResponse>("/removeAsset", {
+    assetId,
+  });
+}
+
+/**
+ * Handler for asset_delete tool
+ * Removes an asset. Unless confirmations are turned off, the first call only
+ * returns the asset and its balance and a token; the asset is removed when
+ * the call is repeated with that token.
+ */
+export async function handleAssetDelete(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<AssetOperationResponse | ConfirmationResponse<AssetDeleteSummary>> {
+  const validated = AssetDeleteInputSchema.parse(input);
+
+  if (confirmationsEnabled()) {
+    const subject = `asset_delete:${validated.assetId}`;
+
+    if (!validated.confirmationToken) {
+      const [{ assetGroups }, { cardGroups }] = await Promise.all([
+        handleAssetList(httpClient, { source: "server" }),
+        handleCardList(httpClient, { source: "server" }),
+      ]);
+      const asset = findAssetInGroups(assetGroups, validated.assetId);
+      const card = cardGroups
+        .flatMap((group) => group.children ?? [])
+        .find((c) => c.assetId === validated.assetId);
+
+      return requestConfirmation(
+        subject,
+        {
+          assetId: validated.assetId,
+          found: !!(asset || card),
+          assetName: asset?.assetName ?? card?.assetName,
+          groupName: asset?.assetGroupName,
+          balance: asset
+            ? asset.assetMoney
+            : card && toNumber(card.notPayMoney),
+        },
+        `delete asset ${asset?.assetName ?? card?.assetName ?? validated.assetId}`,
+      );
+    }
+
+    // A dry run checks the token without using it up
+    redeemConfirmationToken(
+      validated.confirmationToken,
+      subject,
+      !httpClient.isDryRun,
+    );
+  }
+
+  const response = await postAssetDelete(httpClient, validated.assetId);
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    assetId: validated.assetId,
+    message: response.message,
+  };
+}
+
+// ============================================================================
+// Credit Card Handlers
+// ============================================================================
+
+/**
+ * Handler for card_list tool
+ * Retrieves all credit cards in a hierarchical structure
+ */
+export async function handleCardList(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<CardListResponse> {
+  const validated = CardListInputSchema.parse(input);
+
+  const { cardGroups, ...source } = await withDataSource(
+    validated,
+    async () => {
+      const rawResponse = await getReferenceCache().getOrLoad("cards", () =>
+        httpClient.get<CardGroup[]>("/getCardData"),
+      );
+      return { cardGroups: Array.isArray(rawResponse) ? rawResponse : [] };
+    },
+    (ledger) => ({ cardGroups: ledger.cardGroups() }),
+  );
+
+  // Calculate total unpaid balance from all card groups
+  let totalUnpaid = 0;
+
+  for (const group of cardGroups) {
+    if (group.children) {
+      for (const card of group.children) {
+        // API returns notPayMoney as string, need to parse it
+        totalUnpaid += Math.abs(toNumber(card.notPayMoney));
+      }
+    }
+  }
+
+  return {
+    cardGroups,
+    totalUnpaid,
+    ...source,
+  };
+}
+
+/**
+ * Handler for card_create tool
+ * Creates a new credit card
+ */
+export async function handleCardCreate(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<CardOperationResponse> {
+  const validated = CardCreateInputSchema.parse(input);
+
+  const response = await httpClient.post<ApiOperationResponse>(
+    "/addAssetCard",
+    {
+      cardName: validated.cardName,
+      linkAssetId: validated.linkAssetId,
+      linkAssetName: validated.linkAssetName,
+      notPayMoney: validated.notPayMoney,
+      jungsanDay: validated.jungsanDay,
+      paymentDay: validated.paymentDay,
+    },
+  );
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    cardId: response.cardId || response.assetId,
+    message: response.message,
+  };
+}
+
+/**
+ * Handler for card_update tool
+ * Modifies an existing credit card
+ */
+export async function handleCardUpdate(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<CardOperationResponse> {
+  const validated = CardUpdateInputSchema.parse(input);
+
+  const response = await httpClient.post<ApiOperationResponse>("/modifyCard", {
+    assetId: validated.assetId,
+    cardName: validated.cardName,
+    linkAssetId: validated.linkAssetId,
+    linkAssetName: validated.linkAssetName,
+    jungsanDay: validated.jungsanDay,
+    paymentDay: validated.paymentDay,
+  });
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    cardId: validated.assetId,
+    message: response.message,
+  };
+}
+
+// ============================================================================
+// Transfer Handlers
+// ============================================================================
+
+/**
+ * Handler for transfer_create tool
+ * Transfers money between two assets
+ */
+export async function handleTransferCreate(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<TransferOperationResponse> {
+  const validated = TransferCreateInputSchema.parse(input);
+
+  const response = await httpClient.post<ApiOperationResponse>("/moveAsset", {
+    moveDate: validated.moveDate,
+    fromAssetId: validated.fromAssetId,
+    fromAssetName: validated.fromAssetName,
+    toAssetId: validated.toAssetId,
+    toAssetName: validated.toAssetName,
+    moveMoney: validated.moveMoney,
+    moneyContent: validated.moneyContent || "",
+    mbDetailContent: validated.mbDetailContent || "",
+  });
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    transferId: response.transferId || response.id,
+    message: response.message,
+  };
+}
+
+/**
+ * Handler for transfer_update tool
+ * Modifies an existing transfer
+ *
+ * WARNING: The server-side API creates a NEW transfer with a NEW ID instead of
+ * updating in-place. The old ID will no longer exist after this operation.
+ * Use transaction_list to retrieve the new ID if needed.
+ */
+export async function handleTransferUpdate(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<TransferOperationResponse> {
+  const validated = TransferUpdateInputSchema.parse(input);
+
+  const response = await httpClient.post<ApiOperationResponse>(
+    "/modifyMoveAsset",
+    {
+      id: validated.id,
+      moveDate: validated.moveDate,
+      fromAssetId: validated.fromAssetId,
+      fromAssetName: validated.fromAssetName,
+      toAssetId: validated.toAssetId,
+      toAssetName: validated.toAssetName,
+      moveMoney: validated.moveMoney,
+      moneyContent: validated.moneyContent || "",
+      mbDetailContent: validated.mbDetailContent || "",
+    },
+  );
+
+  return {
+    success: response.success !== false && response.result !== "fail",
+    transferId: validated.id,
+    message:
+      response.message ||
+      "WARNING: The server creates a new transfer with a NEW ID. The provided ID is now invalid. Use transaction_list to get the new ID.",
+  };
+}
+
+// ============================================================================
+// Recurring Handlers
+// ============================================================================
+
+/**
+ * Local state file holding recurring templates and their last-run dates
+ */
+const RECURRING_FILE = "recurring.json";
+
+/**
+ * Contents of the recurring templates file
+ */
+interface RecurringStore {
+  nextId: number;
+  templates: RecurringTemplate[];
+}
+
+/**
+ * Reads the recurring templates file
+ */
+function readRecurringStore(): RecurringStore {
+  return readJsonFile<RecurringStore>(RECURRING_FILE, {
+    nextId: 1,
+    templates: [],
+  });
+}
+
+/**
+ * Adds the next due date to a template
+ */
+function summarizeTemplate(
+  template: RecurringTemplate,
+): RecurringTemplateSummary {
+  return {
+    ...template,
+    nextDate: nextOccurrence(template.schedule, template.lastRunDate),
+  };
+}
+
+/**
+ * Handler for recurring_list tool
+ * Lists the stored recurring templates with their next due dates
+ */
+export async function handleRecurringList(
+  _httpClient: HttpClient,
+  input: unknown,
+): Promise<RecurringListResponse> {
+  RecurringListInputSchema.parse(input);
+
+  const { templates } = readRecurringStore();
+  return {
+    count: templates.length,
+    templates: templates.map(summarizeTemplate),
+  };
+}
+
+/**
+ * Handler for recurring_add tool
+ * Stores a recurring transaction or transfer. Transaction names (asset,
+ * category, ...) are resolved to IDs now, so every occurrence is posted the
+ * same way.
+ */
+export async function handleRecurringAdd(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<RecurringOperationResponse> {
+  const validated = RecurringAddInputSchema.parse(input);
+
+  if (!validated.transaction === !validated.transfer) {
+    throw ValidationError.invalidField(
+      "transaction",
+      "exactly one of transaction or transfer",
+      validated.transaction ? "both" : "neither",
+    );
+  }
+  if (validated.endDate && validated.endDate < validated.startDate) {
+    throw ValidationError.invalidField(
+      "endDate",
+      `a date on or after startDate (${validated.startDate})`,
+      validated.endDate,
+    );
+  }
+  if (
+    validated.dayOfMonth !== undefined &&
+    (validated.frequency === "daily" || validated.frequency === "weekly")
+  ) {
+    throw ValidationError.invalidField(
+      "dayOfMonth",
+      "no value for daily and weekly schedules",
+      validated.dayOfMonth,
+    );
+  }
+
+  let transaction: RecurringTemplate["transaction"];
+  if (validated.transaction) {
+    const { transaction: resolved } = await resolveTransactionDraft(
+      httpClient,
+      { ...validated.transaction, mbDate: validated.startDate },
+    );
+    transaction = {
+      assetId: resolved.assetId,
+      payType: resolved.payType,
+      mcid: resolved.mcid,
+      mbCategory: resolved.mbCategory,
+      mbCash: resolved.mbCash,
+      inOutCode: resolved.inOutCode,
+      inOutType: resolved.inOutType,
+      mcscid: resolved.mcscid,
+      subCategory: resolved.subCategory,
+      mbContent: resolved.mbContent,
+      mbDetailContent: resolved.mbDetailContent,
+    };
+  }
+
+  // Read after resolving, so templates added meanwhile are not lost
+  const store = readRecurringStore();
+  const template: RecurringTemplate = {
+    id: `r${store.nextId}`,
+    name: validated.name,
+    schedule: {
+      frequency: validated.frequency,
+      interval: validated.interval,
+      startDate: validated.startDate,
+      endDate: validated.endDate,
+      dayOfMonth: validated.dayOfMonth,
+    },
+    transaction,
+    transfer: validated.transfer,
+    createdAt: new Date().toISOString(),
+  };
+  writeJsonFile(RECURRING_FILE, {
+    nextId: store.nextId + 1,
+    templates: [...store.templates, template],
+  });
+
+  return {
+    success: true,
+    template: summarizeTemplate(template),
+    message: `Recurring template ${template.id} added`,
+  };
+}
+
+/**
+ * Handler for recurring_remove tool
+ * Deletes a recurring template; transactions already posted are kept
+ */
+export async function handleRecurringRemove(
+  _httpClient: HttpClient,
+  input: unknown,
+): Promise<RecurringOperationResponse> {
+  const validated = RecurringRemoveInputSchema.parse(input);
+
+  const store = readRecurringStore();
+  const template = store.templates.find((t) => t.id === validated.id);
+  if (!template) {
+    throw ValidationError.noMatch(
+      "id",
+      validated.id,
+      store.templates.map((t) => t.id),
+    );
+  }
+
+  writeJsonFile(RECURRING_FILE, {
+    ...store,
+    templates: store.templates.filter((t) => t !== template),
+  });
+
+  return {
+    success: true,
+    template: summarizeTemplate(template),
+    message: `Recurring template ${template.id} removed`,
+  };
+}
+
+/**
+ * Posts one occurrence of a recurring template
+ */
+async function postRecurringOccurrence(
+  httpClient: HttpClient,
+  template: RecurringTemplate,
+  date: string,
+): Promise<RecurringRunResult> {
+  const result = { templateId: template.id, name: template.name, date };
+
+  let failure: McpError;
+  try {
+    if (template.transfer) {
+      const response = await handleTransferCreate(httpClient, {
+        ...template.transfer,
+        moveDate: date,
+      });
+      if (response.success) {
+        return { ...result, success: true, transactionId: response.transferId };
+      }
+      failure = APIError.badRequest(
+        response.message ?? "Transfer was rejected by the server",
+      );
+    } else {
+      const response = await handleTransactionCreate(httpClient, {
+        ...template.transaction,
+        mbDate: date,
+      });
+      if (response.skipped) {
+        return {
+          ...result,
+          success: false,
+          skipped: true,
+          duplicates: response.duplicates,
+        };
+      }
+      if (response.success) {
+        return {
+          ...result,
+          success: true,
+          transactionId: response.transactionId,
+          duplicates: response.duplicates,
+        };
+      }
+      failure = APIError.badRequest(
+        response.message ?? "Transaction was rejected by the server",
+      );
+    }
+  } catch (error) {
+    failure = wrapError(error);
+  }
+
+  return {
+    ...result,
+    success: false,
+    error: { code: failure.code, message: failure.message },
+  };
+}
+
+/**
+ * Records the last occurrence posted for a template
+ * The file is re-read so changes made meanwhile are kept.
+ */
+function recordRecurringRun(templateId: string, date: string): void {
+  const store = readRecurringStore();
+  const template = store.templates.find((t) => t.id === templateId);
+  if (template) {
+    template.lastRunDate = date;
+    writeJsonFile(RECURRING_FILE, store);
+  }
+}
+
+/**
+ * Handler for recurring_run_due tool
+ * Posts every occurrence that fell due since each template last ran, oldest
+ * first. Progress is saved after each occurrence, so running it again only
+ * posts what is still missing; a template stops at its first failure and
+ * picks up from there next time.
+ */
+export async function handleRecurringRunDue(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<RecurringRunResponse> {
+  const validated = RecurringRunDueInputSchema.parse(input);
+  const asOf = validated.asOf ?? today();
+
+  const { templates } = readRecurringStore();
+  for (const id of validated.ids ?? []) {
+    if (!templates.some((t) => t.id === id)) {
+      throw ValidationError.noMatch(
+        "ids",
+        id,
+        templates.map((t) => t.id),
+      );
+    }
+  }
+  const selected = validated.ids
+    ? templates.filter((t) => validated.ids?.includes(t.id))
+    : templates;
+
+  const results: RecurringRunResult[] = [];
+  let complete = true;
+  for (const template of selected) {
+    const from = template.lastRunDate
+      ? addDays(template.lastRunDate, 1)
+      : template.schedule.startDate;
+
+    for (const date of occurrencesBetween(template.schedule, from, asOf)) {
+      if (results.length >= validated.limit) {
+        complete = false;
+        break;
+      }
+
+      const result = await postRecurringOccurrence(httpClient, template, date);
+      results.push(result);
+      if (!result.success && !result.skipped) {
+        break;
+      }
+      // A dry run must leave the templates due
+      if (!httpClient.isDryRun) {
+        recordRecurringRun(template.id, date);
+      }
+    }
+  }
+
+  const failed = results.filter((r) => !r.success && !r.skipped).length;
+  return {
+    success: failed === 0,
+    asOf,
+    created: results.filter((r) => r.success).length,
+    failed,
+    skipped: results.filter((r) => r.skipped).length,
+    complete,
+    results,
+  };
+}
+
+// ============================================================================
+// Budget Handlers
+// ============================================================================
+
+/**
+ * Local state file holding budget definitions
+ */
+const BUDGETS_FILE = "budgets.json";
+
+/**
+ * Contents of the budgets file
+ */
+interface BudgetStore {
+  nextId: number;
+  budgets: Budget[];
+}
+
+/**
+ * Reads the budgets file
+ */
+function readBudgetStore(): BudgetStore {
+  return readJsonFile<BudgetStore>(BUDGETS_FILE, { nextId: 1, budgets: [] });
+}
+
+/**
+ * Handler for budget_list tool
+ * Lists the stored budget definitions
+ */
+export async function handleBudgetList(
+  _httpClient: HttpClient,
+  input: unknown,
+): Promise<BudgetListResponse> {
+  BudgetListInputSchema.parse(input);
+
+  const { budgets } = readBudgetStore();
+  return { count: budgets.length, budgets };
+}
+
+/**
+ * Handler for budget_set tool
+ * Stores a budget for an expense category. A budget for the same category
+ * and period replaces the existing one, keeping its ID.
+ */
+export async function handleBudgetSet(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<BudgetOperationResponse> {
+  const validated = BudgetSetInputSchema.parse(input);
+
+  if (validated.period === "custom") {
+    if (!validated.startDate || !validated.endDate) {
+      throw ValidationError.invalidField(
+        validated.startDate ? "endDate" : "startDate",
+        "a date for custom budgets",
+        undefined,
+      );
+    }
+    if (validated.endDate < validated.startDate) {
+      throw ValidationError.invalidField(
+        "endDate",
+        `a date on or after startDate (${validated.startDate})`,
+        validated.endDate,
+      );
+    }
+  } else if (validated.startDate || validated.endDate) {
+    throw ValidationError.invalidField(
+      validated.startDate ? "startDate" : "endDate",
+      "no value for monthly budgets",
+      validated.startDate ?? validated.endDate,
+    );
+  }
+
+  const { categories } = await handleInitGetData(httpClient, {});
+  const category = findOneByName(
+    "category",
+    validated.category,
+    categories.expense,
+    (c) => c.mcname,
+  );
+
+  // Read after resolving, so budgets set meanwhile are not lost
+  const store = readBudgetStore();
+  const existing = store.budgets.find(
+    (b) =>
+      b.mcid === category.mcid &&
+      b.period === validated.period &&
+      b.startDate === validated.startDate &&
+      b.endDate === validated.endDate,
+  );
+
+  const now = new Date().toISOString();
+  const budget: Budget = existing
+    ? {
+        ...existing,
+        category: category.mcname,
+        amount: validated.amount,
+        updatedAt: now,
+      }
+    : {
+        id: `b${store.nextId}`,
+        category: category.mcname,
+        mcid: category.mcid,
+        amount: validated.amount,
+        period: validated.period,
+        startDate: validated.startDate,
+        endDate: validated.endDate,
+        createdAt: now,
+      };
+  writeJsonFile(BUDGETS_FILE, {
+    nextId: existing ? store.nextId : store.nextId + 1,
+    budgets: existing
+      ? store.budgets.map((b) => (b === existing ? budget : b))
+      : [...store.budgets, budget],
+  });
+
+  return {
+    success: true,
+    budget,
+    message: `Budget ${budget.id} ${existing ? "updated" : "added"}`,
+  };
+}
+
+/**
+ * Handler for budget_remove tool
+ * Deletes a budget definition
+ */
+export async function handleBudgetRemove(
+  _httpClient: HttpClient,
+  input: unknown,
+): Promise<BudgetOperationResponse> {
+  const validated = BudgetRemoveInputSchema.parse(input);
+
+  const store = readBudgetStore();
+  const budget = store.budgets.find((b) => b.id === validated.id);
+  if (!budget) {
+    throw ValidationError.noMatch(
+      "id",
+      validated.id,
+      store.budgets.map((b) => b.id),
+    );
+  }
+
+  writeJsonFile(BUDGETS_FILE, {
+    ...store,
+    budgets: store.budgets.filter((b) => b !== budget),
   });
 
   return {
-    success: response.success !== false && response.result !== "fail",
+    success: true,
+    budget,
+    message: `Budget ${budget.id} removed`,
+  };
+}
+
+/**
+ * Handler for budget_status tool
+ * Compares spending with each budget whose period includes the given day.
+ * Spending is taken from summary_get_period for the start of the period up
+ * to that day.
+ */
+export async function handleBudgetStatus(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<BudgetStatusResponse> {
+  const validated = BudgetStatusInputSchema.parse(input);
+  const asOf = validated.asOf ?? today();
+
+  let { budgets } = readBudgetStore();
+  if (validated.categories) {
+    const known = [...new Set(budgets.map((b) => b.category))];
+    const wanted = new Set<string>();
+    for (const name of validated.categories) {
+      const matches = known.filter(
+        (category) => normalizeName(category) === normalizeName(name),
+      );
+      if (matches.length === 0) {
+        throw ValidationError.noMatch("categories", name, known);
+      }
+      matches.forEach((category) => wanted.add(category));
+    }
+    budgets = budgets.filter((b) => wanted.has(b.category));
+  }
+
+  const active = budgets.flatMap((budget) => {
+    const period = budgetPeriod(budget, asOf);
+    return period ? [{ budget, period }] : [];
+  });
+
+  // Budgets with the same period share one summary
+  const startDates = [...new Set(active.map(({ period }) => period.startDate))];
+  const { concurrency } = getConfig().transactionList ?? {
+    chunkMonths: 1,
+    concurrency: 2,
+  };
+  const summaries = await mapWithConcurrency(
+    startDates,
+    concurrency,
+    (startDate) =>
+      handleSummaryGetPeriod(httpClient, {
+        startDate,
+        endDate: asOf,
+        source: validated.source,
+        backupFile: validated.backupFile,
+      }),
+  );
+  const summaryByStart = new Map(
+    startDates.map((startDate, index) => [startDate, summaries[index]]),
+  );
+
+  // Summaries only name the category, so a budget's ID is matched through
+  // the current category names; the stored name is kept for IDs not found
+  const categories =
+    active.length > 0
+      ? await withDataSource(
+          validated,
+          async () => (await handleInitGetData(httpClient, {})).categories,
+          (ledger) => ledger.categories(),
+        )
+      : undefined;
+  const namesById = new Map(
+    (categories?.expense ?? []).map((c) => [c.mcid, c.mcname]),
+  );
+
+  const statuses: BudgetStatus[] = active.map(({ budget, period }) => {
+    const category =
+      (budget.mcid && namesById.get(budget.mcid)) || budget.category;
+    const entry = summaryByStart
+      .get(period.startDate)
+      ?.expenseByCategory.find(
+        (c) => normalizeName(c.mcname) === normalizeName(category),
+      );
+    return trackBudget(
+      { ...budget, category },
+      period,
+      asOf,
+      toNumber(entry?.mcSum),
+      entry?.budget ? toNumber(entry.budget) : undefined,
+    );
+  });
+  statuses.sort(
+    (a, b) => b.percentUsed - a.percentUsed || a.id.localeCompare(b.id),
+  );
+
+  // A fallback to a backup warns once per summary; one warning is enough
+  const warnings = [
+    ...new Set(
+      [...summaries, categories].flatMap(
+        (response) => response?.warnings ?? [],
+      ),
+    ),
+  ];
+
+  return {
+    asOf,
+    budgets: statuses,
+    over: statuses.filter((s) => s.status === "over").length,
+    atRisk: statuses.filter((s) => s.status === "at_risk").length,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    offlineSource: summaries.find((summary) => summary.offlineSource)
+      ?.offlineSource,
+  };
+}
+
+// ============================================================================
+// Dashboard Handlers
+// ============================================================================
+
+/**
+ * Handler for dashboard_get_overview tool
+ * Retrieves dashboard overview with asset trends and portfolio breakdown
+ */
+export async function handleDashboardGetOverview(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<DashboardResponse> {
+  DashboardGetOverviewInputSchema.parse(input);
+
+  const rawResponse =
+    await httpClient.get<RawDashboardResponse>("/getDashBoardData");
+
+  return {
+    assetSummary: rawResponse.assetSummary,
+    monthlyTrend: rawResponse.assetLine || [],
+    assetRatio: rawResponse.assetRatio || [],
+    debtRatio: rawResponse.debtRatio || [],
+  };
+}
+
+/**
+ * Handler for dashboard_get_asset_chart tool
+ * Retrieves historical chart data for a specific asset
+ */
+export async function handleDashboardGetAssetChart(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<AssetChartResponse> {
+  const validated = DashboardGetAssetChartInputSchema.parse(input);
+
+  const rawResponse = await httpClient.post<RawAssetChartResponse>(
+    "/getEachAssetChartData",
+    {
+      assetId: validated.assetId,
+    },
+  );
+
+  return {
     assetId: validated.assetId,
-    message: response.message,
+    chartData: rawResponse.assetChartData || [],
   };
 }
 
 // ============================================================================
-// Credit Card Handlers
+// Backup Handlers
 // ============================================================================
 
 /**
- * Handler for card_list tool
- * Retrieves all credit cards in a hierarchical structure
+ * Handler for backup_download tool
+ * Downloads the SQLite database backup
  */
-export async function handleCardList(
+export async function handleBackupDownload(
   httpClient: HttpClient,
   input: unknown,
-): Promise<CardListResponse> {
-  CardListInputSchema.parse(input);
+): Promise<BackupDownloadResponse> {
+  const validated = BackupDownloadInputSchema.parse(input);
+
+  try {
+    const result = await httpClient.downloadFileGet(
+      "/money.sqlite",
+      validated.outputPath,
+    );
 
-  const rawResponse = await httpClient.get<CardGroup[]>("/getCardData");
+    return {
+      success: true,
+      filePath: result.filePath,
+      fileSize: result.fileSize,
+      message: `Database backup downloaded successfully to ${result.filePath}`,
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw FileError.writeFailed(validated.outputPath, error.message);
+    }
+    throw wrapError(error);
+  }
+}
 
-  // Calculate total unpaid balance from all card groups
-  let totalUnpaid = 0;
-  const cardGroups: CardGroup[] = Array.isArray(rawResponse) ? rawResponse : [];
+/**
+ * Handler for backup_restore tool
+ * Replaces the database with a backup file. The file must be a Money Manager
+ * database, and the first call only returns its row counts and a token. The
+ * confirmed call downloads the current database to the data directory first
+ * and reports the row counts before and after.
+ */
+export async function handleBackupRestore(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<BackupRestoreResponse | ConfirmationResponse<BackupRestoreSummary>> {
+  const validated = BackupRestoreInputSchema.parse(input);
+  const filePath = path.resolve(validated.filePath);
+  const rowCounts = await verifyBackupFile(filePath);
+  const sha256 = hashFile(filePath);
+  // The token is bound to the file's contents, so a file changed after the
+  // first call is not restored
+  const subject = `backup_restore:${filePath}:${sha256}`;
 
-  for (const group of cardGroups) {
-    if (group.children) {
-      for (const card of group.children) {
-        // API returns notPayMoney as string, need to parse it
-        totalUnpaid += Math.abs(toNumber(card.notPayMoney));
+  if (!validated.confirmationToken) {
+    return requestConfirmation(
+      subject,
+      { filePath, fileSize: fs.statSync(filePath).size, sha256, rowCounts },
+      `replace the whole database with ${filePath}`,
+    );
+  }
+  redeemConfirmationToken(
+    validated.confirmationToken,
+    subject,
+    !httpClient.isDryRun,
+  );
+
+  // A dry run sends nothing, so no copy is needed
+  let preRestoreBackup: string | undefined;
+  let rowCountsBefore: Record<string, number> | undefined;
+  if (!httpClient.isDryRun) {
+    const saved = await saveBackup(httpClient, "pre-restore");
+    preRestoreBackup = path.join(backupDirectory(), saved.file);
+    rowCountsBefore = saved.rowCounts;
+  }
+
+  let response: ApiOperationResponse;
+  try {
+    response = await httpClient.uploadFile<ApiOperationResponse>(
+      "/uploadSqlFile",
+      filePath,
+      "file",
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("File not found")) {
+      throw FileError.notFound(filePath);
+    }
+    throw wrapError(error);
+  }
+
+  const success = response.success !== false && response.result !== "fail";
+  const result: BackupRestoreResponse = {
+    success,
+    message: response.message || "Database restored successfully",
+    preRestoreBackup,
+    rowCountsBefore,
+  };
+  if (!success || httpClient.isDryRun) {
+    return result;
+  }
+
+  const warnings: string[] = [];
+  const checkPath = localBackupPath("post-restore");
+  try {
+    await handleBackupDownload(httpClient, { outputPath: checkPath });
+    result.rowCountsAfter = await withDatabaseFile(checkPath, (db) =>
+      countTableRows(db, checkPath),
+    );
+    const changed = Object.keys(rowCounts).filter(
+      (table) => result.rowCountsAfter?.[table] !== rowCounts[table],
+    );
+    if (changed.length > 0) {
+      warnings.push(
+        `Row counts of ${changed.join(", ")} differ from the uploaded file`,
+      );
+    }
+  } catch (error) {
+    warnings.push(
+      `The database could not be downloaded again to count its rows: ${wrapError(error).message}`,
+    );
+  } finally {
+    fs.rmSync(checkPath, { force: true });
+  }
+
+  return { ...result, warnings: warnings.length > 0 ? warnings : undefined };
+}
+
+/**
+ * Handler for backup_verify tool
+ * Checks a backup file's structure and Money Manager schema, and reports its
+ * row counts, date coverage and balance totals
+ */
+export async function handleBackupVerify(
+  _httpClient: HttpClient,
+  input: unknown,
+): Promise<BackupVerifyResponse> {
+  const validated = BackupVerifyInputSchema.parse(input);
+
+  return inspectBackupFile(path.resolve(validated.filePath));
+}
+
+/**
+ * Handler for backup_diff tool
+ * Compares two backup files and reports the transactions, assets and cards
+ * that were added, removed or changed, and the balance change of each asset
+ */
+export async function handleBackupDiff(
+  _httpClient: HttpClient,
+  input: unknown,
+): Promise<BackupDiffResponse> {
+  const validated = BackupDiffInputSchema.parse(input);
+
+  return diffLedgers(
+    await openOfflineLedger(validated.fromFile),
+    await openOfflineLedger(validated.toFile),
+  );
+}
+
+// ============================================================================
+// Cache Handlers
+// ============================================================================
+
+/**
+ * Handler for cache_refresh tool
+ * Discards cached reference data and reloads init data, assets and cards
+ */
+export async function handleCacheRefresh(
+  httpClient: HttpClient,
+  input: unknown,
+): Promise<CacheRefreshResponse> {
+  const validated = CacheRefreshInputSchema.parse(input);
+
+  const cache = getReferenceCache();
+  cache.invalidate();
+
+  const [initData, assets, cards] = await Promise.all([
+    handleInitGetData(httpClient, { mbid: validated.mbid }),
+    handleAssetList(httpClient, { source: "server" }),
+    handleCardList(httpClient, { source: "server" }),
+  ]);
+
+  return {
+    success: true,
+    ttlMs: cache.ttlMs,
+    categoryCount:
+      initData.categories.income.length + initData.categories.expense.length,
+    paymentTypeCount: initData.paymentTypes.length,
+    assetCount: assets.assetGroups.reduce(
+      (count, group) => count + (group.children?.length ?? 0),
+      0,
+    ),
+    cardCount: cards.cardGroups.reduce(
+      (count, group) => count + (group.children?.length ?? 0),
+      0,
+    ),
+    message: cache.enabled
+      ? "Reference data reloaded"
+      : "Reference data reloaded (caching is disabled)",
+  };
+}
+
+// ============================================================================
+// Undo Handlers
+// ============================================================================
+
+/**
+ * Undo steps and warnings recorded for a tool call
+ */
+interface JournalUndo {
+  undo: UndoStep[];
+  warnings?: string[];
+}
+
+/**
+ * Records a journal entry once the tool call has succeeded
+ */
+type JournalRecorder = (result: unknown) => Promise<void>;
+
+/**
+ * Builds the step that deletes the transactions a call created
+ */
+function undoCreatedTransactions(
+  results: { success: boolean; skipped?: boolean; transactionId?: string }[],
+): JournalUndo {
+  const created = results.filter((r) => r.success && !r.skipped);
+  const ids = created.flatMap((r) =>
+    r.transactionId ? [r.transactionId] : [],
+  );
+  const missing = created.length - ids.length;
+
+  return {
+    undo: ids.length > 0 ? [{ action: "deleteTransactions", ids }] : [],
+    warnings:
+      missing > 0
+        ? [
+            `The server did not return the ID of ${missing} created transaction(s); undo cannot delete them`,
+          ]
+        : undefined,
+  };
+}
+
+/**
+ * Finds an asset and its group in an asset list
+ */
+function findAssetInGroups(
+  groups: AssetGroup[],
+  assetId: string,
+): AssetUpdateInput | undefined {
+  for (const group of groups) {
+    const asset = group.children?.find((a) => a.assetId === assetId);
+    if (asset) {
+      return {
+        assetId: asset.assetId,
+        assetGroupId: group.assetGroupId,
+        assetGroupName: group.assetName,
+        assetName: asset.assetName,
+        assetMoney: toNumber(asset.assetMoney),
+        linkAssetId: asset.linkAssetId,
+        linkAssetName: asset.linkAssetName,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Locates the transaction an update is about to replace
+ * The day and month of the expected date are scanned first; the lookback
+ * window only if the transaction is not there.
+ */
+async function findPreviousTransaction(
+  httpClient: HttpClient,
+  id: string,
+  options: FindTransactionOptions,
+): Promise<Transaction | undefined> {
+  if (options.date) {
+    const near = await findTransactionsByIds(httpClient, [id], options);
+    if (near.has(id)) {
+      return near.get(id);
+    }
+  }
+  const found = await findTransactionsByIds(httpClient, [id], {
+    ...options,
+    date: undefined,
+  });
+  return found.get(id);
+}
+
+/**
+ * Collects the IDs of the transactions in a /getDataByPeriod window
+ * Made without retries so a hanging server does not hold up the call.
+ * @returns The IDs, or undefined if the request timed out
+ */
+async function fetchWindowIds(
+  httpClient: HttpClient,
+  params: Record<string, string | undefined>,
+): Promise<Set<string> | undefined> {
+  try {
+    const response = await fetchTransactionWindow(httpClient, params, {
+      retryCount: 0,
+    });
+    return new Set(response.transactions.map((t) => t.id));
+  } catch (error) {
+    if (isTimeoutError(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the state a mutating tool call is about to change
+ * @returns A function that builds the undo steps from the call's result, or
+ *   undefined if the tool is not journaled or its input is invalid (the
+ *   handler reports that error)
+ */
+async function captureUndo(
+  httpClient: HttpClient,
+  toolName: ToolHandlerName,
+  input: unknown,
+): Promise<((result: unknown) => Promise<JournalUndo>) | undefined> {
+  const lookbackMonths = getConfig().journal?.lookbackMonths ?? 12;
+
+  switch (toolName) {
+    case "transaction_create":
+    case "transfer_create":
+      return async (result) => {
+        const response = result as TransactionOperationResponse &
+          TransferOperationResponse;
+        return undoCreatedTransactions([
+          {
+            ...response,
+            transactionId: response.transactionId ?? response.transferId,
+          },
+        ]);
+      };
+
+    case "transaction_create_batch":
+      return async (result) =>
+        undoCreatedTransactions((result as TransactionBatchResponse).results);
+
+    case "transaction_create_split":
+      return async (result) => {
+        const response = result as TransactionSplitResponse;
+        const rolledBack = new Set(response.rolledBack ?? []);
+        return undoCreatedTransactions(
+          response.results.filter(
+            (r) => !r.transactionId || !rolledBack.has(r.transactionId),
+          ),
+        );
+      };
+
+    case "transaction_update_split":
+      // The handler returns the parts it changed as they were before
+      return async (result) => {
+        const { previous } = result as TransactionSplitUpdateResponse;
+        return {
+          undo:
+            previous.length > 0
+              ? [{ action: "restoreTransactions", transactions: previous }]
+              : [],
+        };
+      };
+
+    case "transaction_import_csv":
+    case "transaction_import_ofx":
+      return async (result) =>
+        undoCreatedTransactions(
+          (result as ImportResponse).rows
+            .filter((row) => row.status === "created")
+            .map((row) => ({
+              success: true,
+              transactionId: row.transactionId,
+            })),
+        );
+
+    case "recurring_run_due": {
+      const before = readRecurringStore().templates;
+      return async (result) => {
+        const response = result as RecurringRunResponse;
+        const created = undoCreatedTransactions(response.results);
+
+        // Only the templates this run advanced are put back
+        const advanced = new Set(
+          response.results
+            .filter((r) => r.success || r.skipped)
+            .map((r) => r.templateId),
+        );
+        if (advanced.size === 0) {
+          return created;
+        }
+        const lastRunDates: Record<string, string | null> = {};
+        for (const template of before) {
+          if (advanced.has(template.id)) {
+            lastRunDates[template.id] = template.lastRunDate ?? null;
+          }
+        }
+        return {
+          ...created,
+          undo: [
+            ...created.undo,
+            { action: "restoreRecurringRuns", lastRunDates },
+          ],
+        };
+      };
+    }
+
+    case "transaction_update": {
+      const parsed = TransactionUpdateInputSchema.safeParse(input);
+      if (!parsed.success) {
+        return undefined;
+      }
+      const { id, mbid, originalDate, lookbackMonths } = parsed.data;
+      // A patch update looks the transaction up itself and returns it
+      const fetched = isFullUpdate(parsed.data)
+        ? await findPreviousTransaction(httpClient, id, {
+            mbid: await resolveMbid(httpClient, mbid),
+            date: originalDate ?? parsed.data.mbDate,
+            lookbackMonths,
+          })
+        : undefined;
+      return async (result) => {
+        const response = result as TransactionOperationResponse;
+        const previous = fetched ?? response.previous;
+        // A patch that changed nothing leaves nothing to undo
+        if (
+          !response.success ||
+          (response.changes && Object.keys(response.changes).length === 0)
+        ) {
+          return { undo: [] };
+        }
+        return previous
+          ? {
+              undo: [
+                { action: "restoreTransactions", transactions: [previous] },
+              ],
+            }
+          : {
+              undo: [],
+              warnings: [
+                `Transaction ${id} was not found before the update, so its previous values were not recorded`,
+              ],
+            };
+      };
+    }
+
+    case "transaction_delete": {
+      const parsed = TransactionDeleteInputSchema.safeParse(input);
+      if (!parsed.success) {
+        return undefined;
+      }
+      // The first call of a confirmed delete only returns a summary
+      if (confirmationsEnabled() && !parsed.data.confirmationToken) {
+        return undefined;
+      }
+      const { ids, mbid, lookbackMonths, confirmationToken } = parsed.data;
+
+      // Reuse the rows the confirmation summary listed
+      const confirmed =
+        confirmationToken &&
+        getConfirmationContext<Transaction[]>(
+          confirmationToken,
+          transactionDeleteSubject(ids),
+        );
+      const found = confirmed
+        ? new Map(confirmed.map((t) => [t.id, t]))
+        : await findTransactionsByIds(httpClient, ids, {
+            mbid: await resolveMbid(httpClient, mbid),
+            lookbackMonths,
+          });
+      const missing = ids.filter((id) => !found.has(id));
+      return async (result) => {
+        if (!(result as TransactionOperationResponse).success) {
+          return { undo: [] };
+        }
+        return {
+          undo:
+            found.size > 0
+              ? [
+                  {
+                    action: "createTransactions",
+                    transactions: [...found.values()],
+                  },
+                ]
+              : [],
+          warnings:
+            missing.length > 0
+              ? [
+                  `Transaction(s) ${missing.join(", ")} were not found in the last ${lookbackMonths} months and cannot be re-created`,
+                ]
+              : undefined,
+        };
+      };
+    }
+
+    case "transfer_update": {
+      const parsed = TransferUpdateInputSchema.safeParse(input);
+      if (!parsed.success) {
+        return undefined;
+      }
+      const { id, moveDate } = parsed.data;
+      const mbid = await resolveMbid(httpClient);
+      // Most edits keep the date, so the transfer is usually on moveDate
+      const previous = await findPreviousTransaction(httpClient, id, {
+        mbid,
+        date: moveDate,
+        lookbackMonths,
+      });
+      const day = { startDate: moveDate, endDate: moveDate, mbid };
+      const before = await fetchWindowIds(httpClient, day);
+
+      // The server replaces the transfer with a new one, whose ID is only
+      // found by comparing the day's transactions before and after
+      return async (result) => {
+        if (!(result as TransferOperationResponse).success) {
+          return { undo: [] };
+        }
+        const after = before && (await fetchWindowIds(httpClient, day));
+        const newIds = after ? [...after].filter((t) => !before?.has(t)) : [];
+
+        if (!previous || newIds.length === 0) {
+          return {
+            undo: [],
+            warnings: [
+              !previous
+                ? `Transfer ${id} was not found in the last ${lookbackMonths} months, so its previous values were not recorded`
+                : after
+                  ? `The new ID of transfer ${id} could not be found on ${moveDate}`
+                  : `The transactions on ${moveDate} could not be read in time, so the new ID of transfer ${id} is unknown`,
+            ],
+          };
+        }
+        return {
+          undo: [
+            { action: "deleteTransactions", ids: newIds },
+            { action: "createTransactions", transactions: [previous] },
+          ],
+        };
+      };
+    }
+
+    case "asset_create":
+    case "card_create":
+      return async (result) => {
+        const response = result as AssetOperationResponse &
+          CardOperationResponse;
+        const assetId = response.assetId ?? response.cardId;
+        if (!response.success) {
+          return { undo: [] };
+        }
+        return assetId
+          ? { undo: [{ action: "deleteAsset", assetId }] }
+          : {
+              undo: [],
+              warnings: [
+                "The server did not return the new ID; undo cannot remove it",
+              ],
+            };
+      };
+
+    case "asset_update":
+    case "asset_delete": {
+      const parsed = (
+        toolName === "asset_update"
+          ? AssetUpdateInputSchema
+          : AssetDeleteInputSchema
+      ).safeParse(input);
+      if (!parsed.success) {
+        return undefined;
+      }
+      const { assetId } = parsed.data;
+      const { assetGroups } = await handleAssetList(httpClient, {
+        source: "server",
+      });
+      const previous = findAssetInGroups(assetGroups, assetId);
+      return async (result) => {
+        if (!(result as AssetOperationResponse).success) {
+          return { undo: [] };
+        }
+        if (!previous) {
+          return {
+            undo: [],
+            warnings: [
+              `Asset ${assetId} was not found, so its previous values were not recorded`,
+            ],
+          };
+        }
+        return toolName === "asset_update"
+          ? { undo: [{ action: "updateAsset", asset: previous }] }
+          : {
+              undo: [{ action: "createAsset", asset: previous }],
+              warnings: [
+                "Undo re-creates the asset with a new ID; transactions recorded against it are not restored",
+              ],
+            };
+      };
+    }
+
+    case "card_update": {
+      const parsed = CardUpdateInputSchema.safeParse(input);
+      if (!parsed.success) {
+        return undefined;
       }
+      const { assetId } = parsed.data;
+      const { cardGroups } = await handleCardList(httpClient, {
+        source: "server",
+      });
+      const card = cardGroups
+        .flatMap((group) => group.children ?? [])
+        .find((c) => c.assetId === assetId);
+      return async (result) => {
+        if (!(result as CardOperationResponse).success) {
+          return { undo: [] };
+        }
+        if (!card) {
+          return {
+            undo: [],
+            warnings: [
+              `Card ${assetId} was not found, so its previous values were not recorded`,
+            ],
+          };
+        }
+        return {
+          undo: [
+            {
+              action: "updateCard",
+              card: {
+                assetId: card.assetId,
+                cardName: card.assetName,
+                linkAssetId: card.linkAssetId,
+                linkAssetName: card.linkAssetName ?? "",
+                jungsanDay: card.jungsanDay,
+                paymentDay: card.paymentDay,
+              },
+            },
+          ],
+        };
+      };
     }
-  }
 
-  return {
-    cardGroups,
-    totalUnpaid,
-  };
+    case "backup_restore":
+      return async (result) => {
+        const response = result as BackupRestoreResponse;
+        if (!response.success) {
+          return { undo: [] };
+        }
+        return {
+          undo: [],
+          warnings: [
+            `Restoring a backup replaces the whole database; the previous database was saved to ${response.preRestoreBackup}`,
+          ],
+        };
+      };
+
+    default:
+      return undefined;
+  }
 }
 
 /**
- * Handler for card_create tool
- * Creates a new credit card
+ * Prepares the journal entry for a mutating tool call
+ * The state the call changes is read before it runs. If that read fails the
+ * call still goes ahead and is journaled as not undoable.
+ * @returns A recorder to call with the tool's result, or undefined if the
+ *   tool is not journaled
  */
-export async function handleCardCreate(
+async function prepareJournalEntry(
   httpClient: HttpClient,
+  toolName: ToolHandlerName,
   input: unknown,
-): Promise<CardOperationResponse> {
-  const validated = CardCreateInputSchema.parse(input);
-
-  const response = await httpClient.post<ApiOperationResponse>(
-    "/addAssetCard",
-    {
-      cardName: validated.cardName,
-      linkAssetId: validated.linkAssetId,
-      linkAssetName: validated.linkAssetName,
-      notPayMoney: validated.notPayMoney,
-      jungsanDay: validated.jungsanDay,
-      paymentDay: validated.paymentDay,
-    },
-  );
+): Promise<JournalRecorder | undefined> {
+  let build: ((result: unknown) => Promise<JournalUndo>) | undefined;
+  try {
+    build = await captureUndo(httpClient, toolName, input);
+  } catch (error) {
+    const failure = wrapError(error);
+    build = async () => ({
+      undo: [],
+      warnings: [`Previous state could not be read: ${failure.message}`],
+    });
+  }
+  if (!build) {
+    return undefined;
+  }
 
-  return {
-    success: response.success !== false && response.result !== "fail",
-    cardId: response.cardId || response.assetId,
-    message: response.message,
+  return async (result) => {
+    const { undo, warnings } = await build(result);
+    if (undo.length > 0 || warnings) {
+      appendJournalEntry({ tool: toolName, input, undo, warnings });
+    }
   };
 }
 
 /**
- * Handler for card_update tool
- * Modifies an existing credit card
+ * Returns the ends of a transfer row
+ * Outgoing rows (transfer out, card payment out) hold the source asset in
+ * assetId; incoming rows hold the destination.
  */
-export async function handleCardUpdate(
-  httpClient: HttpClient,
-  input: unknown,
-): Promise<CardOperationResponse> {
-  const validated = CardUpdateInputSchema.parse(input);
-
-  const response = await httpClient.post<ApiOperationResponse>("/modifyCard", {
-    assetId: validated.assetId,
-    cardName: validated.cardName,
-    linkAssetId: validated.linkAssetId,
-    linkAssetName: validated.linkAssetName,
-    jungsanDay: validated.jungsanDay,
-    paymentDay: validated.paymentDay,
-  });
-
-  return {
-    success: response.success !== false && response.result !== "fail",
-    cardId: validated.assetId,
-    message: response.message,
-  };
+function transferEnds(transaction: Transaction): {
+  fromAssetId: string;
+  toAssetId: string;
+} {
+  const outgoing =
+    transaction.inOutCode === InOutCode.TRANSFER_OUT ||
+    transaction.inOutCode === InOutCode.CARD_PAYMENT_OUT;
+  const other = transaction.toAssetId ?? transaction.targetAssetId ?? "";
+  return outgoing
+    ? { fromAssetId: transaction.assetId, toAssetId: other }
+    : { fromAssetId: other, toAssetId: transaction.assetId };
 }
 
-// ============================================================================
-// Transfer Handlers
-// ============================================================================
-
 /**
- * Handler for transfer_create tool
- * Transfers money between two assets
+ * Re-creates deleted transactions and transfers
+ * @returns The new IDs, keyed by the old ones
  */
-export async function handleTransferCreate(
+async function recreateTransactions(
   httpClient: HttpClient,
-  input: unknown,
-): Promise<TransferOperationResponse> {
-  const validated = TransferCreateInputSchema.parse(input);
+  transactions: Transaction[],
+): Promise<Record<string, string>> {
+  const newIds: Record<string, string> = {};
+  let assetNames: Map<string, string> | undefined;
 
-  const response = await httpClient.post<ApiOperationResponse>("/moveAsset", {
-    moveDate: validated.moveDate,
-    fromAssetId: validated.fromAssetId,
-    fromAssetName: validated.fromAssetName,
-    toAssetId: validated.toAssetId,
-    toAssetName: validated.toAssetName,
-    moveMoney: validated.moveMoney,
-    moneyContent: validated.moneyContent || "",
-    mbDetailContent: validated.mbDetailContent || "",
-  });
+  for (const transaction of transactions) {
+    const { inOutCode } = transaction;
+    let newId: string | undefined;
 
-  return {
-    success: response.success !== false && response.result !== "fail",
-    transferId: response.transferId || response.id,
-    message: response.message,
-  };
+    if (inOutCode === InOutCode.INCOME || inOutCode === InOutCode.EXPENSE) {
+      const response = await postTransactionCreate(httpClient, {
+        ...transaction,
+        inOutCode,
+      });
+      if (response.success === false || response.result === "fail") {
+        throw APIError.badRequest(
+          response.message ??
+            `Transaction ${transaction.id} was rejected by the server`,
+        );
+      }
+      newId = response.id;
+    } else if (
+      inOutCode === InOutCode.TRANSFER_OUT ||
+      inOutCode === InOutCode.TRANSFER_IN ||
+      inOutCode === InOutCode.CARD_PAYMENT_OUT ||
+      inOutCode === InOutCode.CARD_PAYMENT_IN
+    ) {
+      assetNames ??= new Map(
+        (await handleInitGetData(httpClient, {})).assetNames.map((a) => [
+          a.assetId,
+          a.assetName,
+        ]),
+      );
+      const { fromAssetId, toAssetId } = transferEnds(transaction);
+      const response = await handleTransferCreate(httpClient, {
+        moveDate: transaction.mbDate,
+        fromAssetId,
+        fromAssetName: assetNames.get(fromAssetId) ?? fromAssetId,
+        toAssetId,
+        toAssetName: assetNames.get(toAssetId) ?? toAssetId,
+        moveMoney: transaction.mbCash,
+        moneyContent: transaction.mbContent,
+        mbDetailContent: transaction.mbDetailContent,
+      });
+      if (!response.success) {
+        throw APIError.badRequest(
+          response.message ??
+            `Transfer ${transaction.id} was rejected by the server`,
+        );
+      }
+      newId = response.transferId;
+    } else {
+      throw ValidationError.invalidField(
+        "inOutCode",
+        "an income, expense or transfer transaction",
+        inOutCode,
+      );
+    }
+
+    if (newId) {
+      newIds[transaction.id] = newId;
+    }
+  }
+
+  return newIds;
 }
 
 /**
- * Handler for transfer_update tool
- * Modifies an existing transfer
- *
- * WARNING: The server-side API creates a NEW transfer with a NEW ID instead of
- * updating in-place. The old ID will no longer exist after this operation.
- * Use transaction_list to retrieve the new ID if needed.
+ * Runs one undo step
+ * @param currentId - Maps IDs recorded in the step to the records' current IDs
+ * @param newIds - Collects the new IDs of re-created records
+ * @throws {McpError} If the server rejects the step
  */
-export async function handleTransferUpdate(
+async function runUndoStep(
   httpClient: HttpClient,
-  input: unknown,
-): Promise<TransferOperationResponse> {
-  const validated = TransferUpdateInputSchema.parse(input);
+  step: UndoStep,
+  currentId: (id: string) => string,
+  newIds: Record<string, string>,
+): Promise<void> {
+  const check = (
+    response: { success: boolean; message?: string },
+    what: string,
+  ): void => {
+    if (!response.success) {
+      throw APIError.badRequest(
+        response.message ?? `${what} was rejected by the server`,
+      );
+    }
+  };
 
-  const response = await httpClient.post<ApiOperationResponse>(
-    "/modifyMoveAsset",
-    {
-      id: validated.id,
-      moveDate: validated.moveDate,
-      fromAssetId: validated.fromAssetId,
-      fromAssetName: validated.fromAssetName,
-      toAssetId: validated.toAssetId,
-      toAssetName: validated.toAssetName,
-      moveMoney: validated.moveMoney,
-      moneyContent: validated.moneyContent || "",
-      mbDetailContent: validated.mbDetailContent || "",
-    },
-  );
+  switch (step.action) {
+    case "deleteTransactions": {
+      const ids = step.ids.map(currentId);
+      const response = await postTransactionDelete(httpClient, ids);
+      check(
+        {
+          success: response.success !== false && response.result !== "fail",
+          message: response.message,
+        },
+        "Delete",
+      );
 
-  return {
-    success: response.success !== false && response.result !== "fail",
-    transferId: validated.id,
-    message:
-      response.message ||
-      "WARNING: The server creates a new transfer with a NEW ID. The provided ID is now invalid. Use transaction_list to get the new ID.",
-  };
-}
+      if (httpClient.isDryRun) {
+        return;
+      }
 
-// ============================================================================
-// Dashboard Handlers
-// ============================================================================
+      // Deleted OFX rows may be imported again
+      const deleted = new Set(ids);
+      const history = readJsonFile<OfxImportHistory>(OFX_IMPORTS_FILE, {});
+      let changed = false;
+      for (const imported of Object.values(history)) {
+        for (const [fitId, transactionId] of Object.entries(imported)) {
+          if (transactionId !== null && deleted.has(transactionId)) {
+            delete imported[fitId];
+            changed = true;
+          }
+        }
+      }
+      if (changed) {
+        writeJsonFile(OFX_IMPORTS_FILE, history);
+      }
+      return;
+    }
+
+    case "createTransactions":
+      Object.assign(
+        newIds,
+        await recreateTransactions(httpClient, step.transactions),
+      );
+      return;
+
+    case "restoreTransactions":
+      for (const transaction of step.transactions) {
+        const response = await postTransactionUpdate(httpClient, {
+          ...transaction,
+          id: currentId(transaction.id),
+        });
+        check(
+          {
+            success: response.success !== false && response.result !== "fail",
+            message: response.message,
+          },
+          `Transaction ${transaction.id}`,
+        );
+      }
+      return;
+
+    case "createAsset": {
+      const { assetId, ...asset } = step.asset;
+      const response = await handleAssetCreate(httpClient, asset);
+      check(response, `Asset ${assetId}`);
+      if (response.assetId) {
+        newIds[assetId] = response.assetId;
+      }
+      return;
+    }
+
+    case "updateAsset":
+      check(
+        await handleAssetUpdate(httpClient, {
+          ...step.asset,
+          assetId: currentId(step.asset.assetId),
+        }),
+        `Asset ${step.asset.assetId}`,
+      );
+      return;
+
+    case "deleteAsset": {
+      const response = await postAssetDelete(
+        httpClient,
+        currentId(step.assetId),
+      );
+      check(
+        {
+          success: response.success !== false && response.result !== "fail",
+          message: response.message,
+        },
+        `Asset ${step.assetId}`,
+      );
+      return;
+    }
+
+    case "updateCard":
+      check(
+        await handleCardUpdate(httpClient, {
+          ...step.card,
+          assetId: currentId(step.card.assetId),
+        }),
+        `Card ${step.card.assetId}`,
+      );
+      return;
+
+    case "restoreRecurringRuns": {
+      if (httpClient.isDryRun) {
+        return;
+      }
+      const store = readRecurringStore();
+      for (const template of store.templates) {
+        const lastRunDate = step.lastRunDates[template.id];
+        if (lastRunDate === null) {
+          delete template.lastRunDate;
+        } else if (lastRunDate !== undefined) {
+          template.lastRunDate = lastRunDate;
+        }
+      }
+      writeJsonFile(RECURRING_FILE, store);
+      return;
+    }
+  }
+}
 
 /**
- * Handler for dashboard_get_overview tool
- * Retrieves dashboard overview with asset trends and portfolio breakdown
+ * Reverses a journaled operation
+ * Steps run in order and stop at the first failure. The undo is journaled as
+ * soon as any step succeeded, so the completed steps are not repeated, and
+ * records the new IDs of re-created records for later undos.
  */
-export async function handleDashboardGetOverview(
+async function undoOperation(
   httpClient: HttpClient,
-  input: unknown,
-): Promise<DashboardResponse> {
-  DashboardGetOverviewInputSchema.parse(input);
+  toolName: ToolHandlerName,
+  entry: JournalEntry,
+  currentId: (id: string) => string,
+): Promise<UndoResponse> {
+  const newIds: Record<string, string> = {};
+  const steps: UndoStepResult[] = [];
 
-  const rawResponse =
-    await httpClient.get<RawDashboardResponse>("/getDashBoardData");
+  for (const step of entry.undo) {
+    try {
+      await runUndoStep(httpClient, step, currentId, newIds);
+      steps.push({ action: step.action, success: true });
+    } catch (error) {
+      const failure = wrapError(error);
+      steps.push({
+        action: step.action,
+        success: false,
+        error: { code: failure.code, message: failure.message },
+      });
+      break;
+    }
+  }
+
+  const completed = steps.filter((s) => s.success).length;
+  const success = completed === entry.undo.length;
+  const message = success
+    ? `Undid ${entry.tool} (${entry.id})`
+    : `Undo of ${entry.id} stopped at step ${completed + 1} of ${entry.undo.length}`;
+
+  if (completed > 0 && !httpClient.isDryRun) {
+    appendJournalEntry({
+      tool: toolName,
+      input: { id: entry.id },
+      undo: [],
+      undoes: entry.id,
+      newIds: Object.keys(newIds).length > 0 ? newIds : undefined,
+      warnings: success ? undefined : [message],
+    });
+  }
 
   return {
-    assetSummary: rawResponse.assetSummary,
-    monthlyTrend: rawResponse.assetLine || [],
-    assetRatio: rawResponse.assetRatio || [],
-    debtRatio: rawResponse.debtRatio || [],
+    success,
+    operationId: entry.id,
+    tool: entry.tool,
+    steps,
+    newIds: Object.keys(newIds).length > 0 ? newIds : undefined,
+    warnings: entry.warnings,
+    message,
   };
 }
 
 /**
- * Handler for dashboard_get_asset_chart tool
- * Retrieves historical chart data for a specific asset
+ * Handler for journal_list tool
+ * Lists recent journaled operations, newest first
  */
-export async function handleDashboardGetAssetChart(
-  httpClient: HttpClient,
+export async function handleJournalList(
+  _httpClient: HttpClient,
   input: unknown,
-): Promise<AssetChartResponse> {
-  const validated = DashboardGetAssetChartInputSchema.parse(input);
-
-  const rawResponse = await httpClient.post<RawAssetChartResponse>(
-    "/getEachAssetChartData",
-    {
-      assetId: validated.assetId,
-    },
-  );
+): Promise<JournalListResponse> {
+  const validated = JournalListInputSchema.parse(input);
 
-  return {
-    assetId: validated.assetId,
-    chartData: rawResponse.assetChartData || [],
-  };
+  const entries = summarizeJournal(readJournal()).slice(0, validated.limit);
+  return { count: entries.length, entries };
 }
 
-// ============================================================================
-// Backup Handlers
-// ============================================================================
-
 /**
- * Handler for backup_download tool
- * Downloads the SQLite database backup
+ * Handler for undo_last tool
+ * Reverses the most recent operation that has not been undone
  */
-export async function handleBackupDownload(
+export async function handleUndoLast(
   httpClient: HttpClient,
   input: unknown,
-): Promise<BackupDownloadResponse> {
-  const validated = BackupDownloadInputSchema.parse(input);
-
-  try {
-    const result = await httpClient.downloadFileGet(
-      "/money.sqlite",
-      validated.outputPath,
-    );
+): Promise<UndoResponse> {
+  UndoLastInputSchema.parse(input);
 
-    return {
-      success: true,
-      filePath: result.filePath,
-      fileSize: result.fileSize,
-      message: `Database backup downloaded successfully to ${result.filePath}`,
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw FileError.writeFailed(validated.outputPath, error.message);
-    }
-    throw wrapError(error);
-  }
+  const entries = readJournal();
+  return undoOperation(
+    httpClient,
+    "undo_last",
+    findUndoTarget(entries),
+    currentIdResolver(entries),
+  );
 }
 
 /**
- * Handler for backup_restore tool
- * Restores from a SQLite database backup file
+ * Handler for undo_operation tool
+ * Reverses a journaled operation by ID
  */
-export async function handleBackupRestore(
+export async function handleUndoOperation(
   httpClient: HttpClient,
   input: unknown,
-): Promise<BackupRestoreResponse> {
-  const validated = BackupRestoreInputSchema.parse(input);
-
-  try {
-    const response = await httpClient.uploadFile<ApiOperationResponse>(
-      "/uploadSqlFile",
-      validated.filePath,
-      "file",
-    );
+): Promise<UndoResponse> {
+  const validated = UndoOperationInputSchema.parse(input);
 
-    return {
-      success: response.success !== false && response.result !== "fail",
-      message: response.message || "Database restored successfully",
-    };
-  } catch (error) {
-    if (error instanceof Error && error.message.includes("File not found")) {
-      throw FileError.notFound(validated.filePath);
-    }
-    throw wrapError(error);
-  }
+  const entries = readJournal();
+  return undoOperation(
+    httpClient,
+    "undo_operation",
+    findUndoTarget(entries, validated.id),
+    currentIdResolver(entries),
+  );
 }
 
 // ============================================================================
@@ -795,13 +4413,22 @@ export const toolHandlers = {
 
   // Transactions
   transaction_list: handleTransactionList,
+  transaction_get: handleTransactionGet,
   transaction_create: handleTransactionCreate,
+  transaction_create_batch: handleTransactionCreateBatch,
+  transaction_create_split: handleTransactionCreateSplit,
+  transaction_update_split: handleTransactionUpdateSplit,
+  transaction_import_csv: handleTransactionImportCsv,
+  transaction_import_ofx: handleTransactionImportOfx,
   transaction_update: handleTransactionUpdate,
   transaction_delete: handleTransactionDelete,
+  transaction_find_duplicates: handleTransactionFindDuplicates,
 
   // Summary
   summary_get_period: handleSummaryGetPeriod,
   summary_export_excel: handleSummaryExportExcel,
+  tag_summary: handleTagSummary,
+  report_monthly_trend: handleReportMonthlyTrend,
 
   // Assets
   asset_list: handleAssetList,
@@ -818,6 +4445,18 @@ export const toolHandlers = {
   transfer_create: handleTransferCreate,
   transfer_update: handleTransferUpdate,
 
+  // Recurring
+  recurring_list: handleRecurringList,
+  recurring_add: handleRecurringAdd,
+  recurring_remove: handleRecurringRemove,
+  recurring_run_due: handleRecurringRunDue,
+
+  // Budgets
+  budget_list: handleBudgetList,
+  budget_set: handleBudgetSet,
+  budget_remove: handleBudgetRemove,
+  budget_status: handleBudgetStatus,
+
   // Dashboard
   dashboard_get_overview: handleDashboardGetOverview,
   dashboard_get_asset_chart: handleDashboardGetAssetChart,
@@ -825,6 +4464,16 @@ export const toolHandlers = {
   // Backup
   backup_download: handleBackupDownload,
   backup_restore: handleBackupRestore,
+  backup_diff: handleBackupDiff,
+  backup_verify: handleBackupVerify,
+
+  // Cache
+  cache_refresh: handleCacheRefresh,
+
+  // Undo
+  journal_list: handleJournalList,
+  undo_last: handleUndoLast,
+  undo_operation: handleUndoOperation,
 } as const;
 
 /**
@@ -832,6 +4481,65 @@ export const toolHandlers = {
  */
 export type ToolHandlerName = keyof typeof toolHandlers;
 
+/**
+ * Tools that modify data on the server
+ * Cached reference data is invalidated after any of these run; in read-only
+ * mode they are hidden and refused. Each must accept dryRun in its registered
+ * schema, or a dry run would be stripped during validation and sent for real.
+ */
+export const MUTATING_TOOLS: ReadonlySet<ToolHandlerName> =
+  new Set<DryRunToolName>([
+    "transaction_create",
+    "transaction_create_batch",
+    "transaction_create_split",
+    "transaction_update_split",
+    "transaction_import_csv",
+    "transaction_import_ofx",
+    "transaction_update",
+    "transaction_delete",
+    "asset_create",
+    "asset_update",
+    "asset_delete",
+    "card_create",
+    "card_update",
+    "transfer_create",
+    "transfer_update",
+    "recurring_run_due",
+    "backup_restore",
+    "undo_last",
+    "undo_operation",
+  ]);
+
+/**
+ * Tools that download or replace the server's database
+ * They are hidden and refused unless backup.enabled is set. backup_diff and
+ * backup_verify only read local files and are always offered.
+ */
+export const BACKUP_TOOLS: ReadonlySet<ToolHandlerName> = new Set([
+  "backup_download",
+  "backup_restore",
+]);
+
+/**
+ * Tools that preview their changes through their own dryRun argument
+ */
+const SELF_PREVIEWING_TOOLS: ReadonlySet<ToolHandlerName> = new Set([
+  "transaction_import_csv",
+  "transaction_import_ofx",
+]);
+
+/**
+ * Checks whether a mutating tool call should only be previewed
+ * The configured dryRun flag cannot be turned off by a call.
+ */
+function isDryRun(toolName: ToolHandlerName, input: unknown): boolean {
+  if (SELF_PREVIEWING_TOOLS.has(toolName)) {
+    return false;
+  }
+  const { dryRun } = DryRunInputSchema.parse(input ?? {});
+  return getConfig().dryRun || dryRun === true;
+}
+
 /**
  * Execute a tool by name
  */
@@ -846,5 +4554,58 @@ export async function executeToolHandler(
     throw new ValidationError(`Unknown tool: ${toolName}`);
   }
 
-  return handler(httpClient, input);
+  if (
+    BACKUP_TOOLS.has(toolName as ToolHandlerName) &&
+    !getConfig().backup?.enabled
+  ) {
+    throw AccessError.toolDisabled(toolName, "backup.enabled");
+  }
+
+  if (!MUTATING_TOOLS.has(toolName as ToolHandlerName)) {
+    return handler(httpClient, input);
+  }
+
+  if (getConfig().access.readOnly) {
+    throw ReadOnlyError.toolDisabled(toolName);
+  }
+
+  if (isDryRun(toolName as ToolHandlerName, input)) {
+    const dryRunClient = httpClient.forDryRun();
+    const result = await handler(dryRunClient, input);
+    const requests = dryRunClient.getDryRunRequests();
+    const response: DryRunResponse = {
+      dryRun: true,
+      tool: toolName,
+      requests,
+      result,
+      message:
+        requests.length > 0
+          ? `Dry run: ${requests.length} request(s) were not sent`
+          : "Dry run: the call would not change anything",
+    };
+    return response;
+  }
+
+  const recordJournalEntry =
+    getConfig().journal?.enabled === false
+      ? undefined
+      : await prepareJournalEntry(
+          httpClient,
+          toolName as ToolHandlerName,
+          input,
+        );
+
+  try {
+    const result = await handler(httpClient, input);
+    try {
+      await recordJournalEntry?.(result);
+    } catch (error) {
+      // The change itself succeeded, so a journal failure must not hide it
+      console.error("[MCP Server] Failed to write journal entry:", error);
+    }
+    return result;
+  } finally {
+    // Balances, names and categories may have changed, even if the call failed
+    getReferenceCache().invalidate();
+  }
 }
@@ -39,6 +39,8 @@ export interface Transaction {
   inOutCode: string;
   inOutType: string;
   mbDetailContent?: string;
+  /** Hashtags found in mbDetailContent, without the `#` */
+  tags?: string[];
 }
 
 /**
@@ -83,7 +85,12 @@ export interface TransactionUpdateInput {
  */
 export interface TransactionListResponse {
   count: number;
+  /** Number of matching transactions before limit/offset were applied */
+  totalCount?: number;
   transactions: Transaction[];
+  warnings?: string[];
+  /** Set when the data was read from a backup instead of the server */
+  offlineSource?: OfflineSourceInfo;
 }
 
 /**
@@ -94,6 +101,140 @@ export interface TransactionOperationResponse {
   transactionId?: string;
   deletedCount?: number;
   message?: string;
+  resolved?: ResolvedTransactionFields;
+  /** True when the transaction was not created because it is a duplicate */
+  skipped?: boolean;
+  /** IDs of existing transactions this one appears to duplicate */
+  duplicates?: string[];
+  /** Fields changed by a patch update, with their previous and new values */
+  changes?: Record<string, FieldChange>;
+  warnings?: string[];
+  /** The transaction as it was before a patch update */
+  previous?: Transaction;
+}
+
+/**
+ * Before/after values of a changed field
+ */
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Result of one item in a transaction_create_batch call
+ */
+export interface TransactionBatchItemResult {
+  /** Position of the item in the request */
+  index: number;
+  success: boolean;
+  transactionId?: string;
+  /**
+   * True when the item was not posted, because an earlier item failed or
+   * because it duplicates an existing transaction
+   */
+  skipped?: boolean;
+  /** IDs of existing transactions this item appears to duplicate */
+  duplicates?: string[];
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Response for transaction_create_batch
+ */
+export interface TransactionBatchResponse {
+  /** True when every item was created */
+  success: boolean;
+  total: number;
+  created: number;
+  failed: number;
+  skipped: number;
+  results: TransactionBatchItemResult[];
+  warnings?: string[];
+}
+
+/**
+ * Response for transaction_create_split
+ */
+export interface TransactionSplitResponse {
+  /** True when every part was created */
+  success: boolean;
+  /** ID in the `[split:<id>]` marker shared by the parts */
+  splitId: string;
+  total: number;
+  created: number;
+  results: TransactionBatchItemResult[];
+  /** Parts deleted again because another part failed */
+  rolledBack?: string[];
+  message?: string;
+}
+
+/**
+ * Outcome for one part updated by transaction_update_split
+ */
+export interface TransactionSplitPartResult {
+  transactionId: string;
+  success: boolean;
+  /** True when the part was not posted because an earlier part failed */
+  skipped?: boolean;
+  /** Fields changed on the part, with their previous and new values */
+  changes: Record<string, FieldChange>;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Response for transaction_update_split
+ */
+export interface TransactionSplitUpdateResponse {
+  /** True when every changed part was updated */
+  success: boolean;
+  splitId: string;
+  /** Total of the parts after the update */
+  total: number;
+  updated: number;
+  results: TransactionSplitPartResult[];
+  /** The parts left updated, as they were before the update */
+  previous: Transaction[];
+  /** Parts changed back because another part failed */
+  rolledBack?: string[];
+  message?: string;
+}
+
+/**
+ * Response for transaction_find_duplicates
+ */
+export interface DuplicateScanResponse {
+  /** Number of duplicate groups */
+  count: number;
+  /** Number of transactions scanned */
+  scanned: number;
+  windowDays: number;
+  /** Each group holds transactions that duplicate each other, oldest first */
+  groups: Transaction[][];
+  warnings?: string[];
+  /** Set when the data was read from a backup instead of the server */
+  offlineSource?: OfflineSourceInfo;
+}
+
+/**
+ * Server fields filled in from names during transaction creation
+ */
+export interface ResolvedTransactionFields {
+  assetId: string;
+  payType: string;
+  mcid: string;
+  mbCategory: string;
+  mcscid?: string;
+  subCategory?: string;
+  inOutType: string;
+  /** Where the category came from when the caller did not give one */
+  categorySource?: "rule" | "history";
 }
 
 // ============================================================================
@@ -166,6 +307,9 @@ export interface AssetOperationResponse {
 export interface AssetListResponse {
   assetGroups: AssetGroup[];
   totalBalance: number;
+  warnings?: string[];
+  /** Set when the data was read from a backup instead of the server */
+  offlineSource?: OfflineSourceInfo;
 }
 
 // ============================================================================
@@ -239,6 +383,9 @@ export interface CardOperationResponse {
 export interface CardListResponse {
   cardGroups: CardGroup[];
   totalUnpaid: number;
+  warnings?: string[];
+  /** Set when the data was read from a backup instead of the server */
+  offlineSource?: OfflineSourceInfo;
 }
 
 // ============================================================================
@@ -364,6 +511,9 @@ export interface SummaryResponse {
   summary: Summary;
   incomeByCategory: CategorySummary[];
   expenseByCategory: CategorySummary[];
+  warnings?: string[];
+  /** Set when the data was read from a backup instead of the server */
+  offlineSource?: OfflineSourceInfo;
 }
 
 /**
@@ -375,6 +525,80 @@ export interface RawSummaryResponse {
   outcome: CategorySummary[];
 }
 
+/**
+ * Income and expense totals for one tag
+ */
+export interface TagTotal {
+  tag: string;
+  income: number;
+  expense: number;
+  /** Income minus expense */
+  net: number;
+  count: number;
+}
+
+/**
+ * Response for tag_summary
+ */
+export interface TagSummaryResponse {
+  startDate: string;
+  endDate: string;
+  /** Totals per tag, largest expense first */
+  tags: TagTotal[];
+  /** Totals of the income and expense transactions without any tag */
+  untagged: Omit<TagTotal, "tag">;
+  warnings?: string[];
+  /** Set when the data was read from a backup instead of the server */
+  offlineSource?: OfflineSourceInfo;
+}
+
+/**
+ * Change from an earlier month to a later one
+ */
+export interface TrendDelta {
+  income: number;
+  expense: number;
+  net: number;
+  /** Change in savings rate, in percentage points; null if either is null */
+  savingsRate: number | null;
+}
+
+/**
+ * Income and expense of one calendar month
+ */
+export interface MonthlyTrend {
+  /** Month in YYYY-MM format */
+  month: string;
+  income: number;
+  expense: number;
+  /** Income minus expense */
+  net: number;
+  /** Net as a percentage of income; null for a month without income */
+  savingsRate: number | null;
+  /** Change from the previous month */
+  monthOverMonth: TrendDelta;
+  /** Change from the same month a year earlier */
+  yearOverYear: TrendDelta;
+  /** Only when includeCategories is set */
+  incomeByCategory?: CategorySummary[];
+  expenseByCategory?: CategorySummary[];
+}
+
+/**
+ * Response for report_monthly_trend
+ */
+export interface MonthlyTrendResponse {
+  startMonth: string;
+  endMonth: string;
+  /** One entry per month, oldest first */
+  months: MonthlyTrend[];
+  /** Totals over all reported months */
+  totals: Pick<MonthlyTrend, "income" | "expense" | "net" | "savingsRate">;
+  warnings?: string[];
+  /** Set when the data was read from a backup instead of the server */
+  offlineSource?: OfflineSourceInfo;
+}
+
 // ============================================================================
 // Transfer Types
 // ============================================================================
@@ -505,12 +729,542 @@ export interface BackupDownloadResponse {
   message?: string;
 }
 
+/**
+ * Why a local backup was taken
+ */
+export type BackupKind = "scheduled" | "pre-restore";
+
+/**
+ * A local backup recorded in the manifest
+ */
+export interface BackupManifestEntry {
+  /** File name in the backup directory */
+  file: string;
+  kind: BackupKind;
+  createdAt: string;
+  size: number;
+  sha256: string;
+  /** Row count of every table */
+  rowCounts: Record<string, number>;
+}
+
+/**
+ * Manifest of the local backups
+ */
+export interface BackupManifest {
+  backups: BackupManifestEntry[];
+}
+
+/**
+ * What backup_restore would upload
+ */
+export interface BackupRestoreSummary {
+  filePath: string;
+  fileSize: number;
+  sha256: string;
+  /** Row count of every table in the file */
+  rowCounts: Record<string, number>;
+}
+
 /**
  * Response for backup restore operation
  */
 export interface BackupRestoreResponse {
   success: boolean;
   message?: string;
+  /** Local copy of the database taken just before the restore */
+  preRestoreBackup?: string;
+  /** Row counts of the database before the restore */
+  rowCountsBefore?: Record<string, number>;
+  /** Row counts of the database downloaded again after the restore */
+  rowCountsAfter?: Record<string, number>;
+  warnings?: string[];
+}
+
+/**
+ * Response for backup_verify
+ */
+export interface BackupVerifyResponse {
+  /** True when no integrity or schema problem was found */
+  valid: boolean;
+  filePath: string;
+  fileSize: number;
+  sha256: string;
+  /** Structural problems in the SQLite file, such as unused or damaged pages */
+  integrityProblems: string[];
+  /** Missing Money Manager tables and columns */
+  schemaProblems: string[];
+  /** Row count of every table */
+  rowCounts: Record<string, number>;
+  /** Number of transactions that are not marked deleted */
+  transactionCount?: number;
+  /** Earliest mbDate of those transactions */
+  earliestDate?: string;
+  /** Latest mbDate of those transactions */
+  latestDate?: string;
+  /** Sum of the asset balances, as asset_list reports it */
+  totalBalance?: number;
+  /** Sum of the unpaid card amounts, as card_list reports it */
+  totalUnpaid?: number;
+}
+
+/**
+ * A record found in both backups with different values
+ */
+export interface RecordChange<T> {
+  /** The record as it is in the newer backup */
+  record: T;
+  changes: Record<string, FieldChange>;
+}
+
+/**
+ * Records added, removed and changed between two backups
+ */
+export interface RecordDiff<T> {
+  added: T[];
+  removed: T[];
+  modified: RecordChange<T>[];
+}
+
+/**
+ * Change of one asset's or card's balance between two backups
+ */
+export interface BalanceChange {
+  assetId: string;
+  assetName: string;
+  before: number;
+  after: number;
+  /** After minus before */
+  difference: number;
+}
+
+/**
+ * Response for backup_diff
+ */
+export interface BackupDiffResponse {
+  from: OfflineSourceInfo;
+  to: OfflineSourceInfo;
+  transactions: RecordDiff<Transaction>;
+  assets: RecordDiff<Asset>;
+  cards: RecordDiff<CreditCard>;
+  /** Assets and cards whose balance changed, largest change first */
+  balanceChanges: BalanceChange[];
+  /** Sum of the balance differences */
+  netChange: number;
+}
+
+// ============================================================================
+// Offline Types
+// ============================================================================
+
+/**
+ * Backup file a response was read from
+ */
+export interface OfflineSourceInfo {
+  filePath: string;
+  /** When the file was last written, which is as current as its data is */
+  modifiedAt: string;
+}
+
+// ============================================================================
+// Cache Types
+// ============================================================================
+
+/**
+ * Response for cache refresh operation
+ */
+export interface CacheRefreshResponse {
+  success: boolean;
+  ttlMs: number;
+  categoryCount: number;
+  paymentTypeCount: number;
+  assetCount: number;
+  cardCount: number;
+  message?: string;
+}
+
+// ============================================================================
+// Import Types
+// ============================================================================
+
+/**
+ * Status of a statement row during import
+ */
+export type ImportRowStatus =
+  | "ready"
+  | "created"
+  | "failed"
+  | "skipped"
+  | "invalid";
+
+/**
+ * Outcome for one statement row
+ */
+export interface ImportRowResult {
+  /** 1-based line number in the source file */
+  line: number;
+  /** OFX transaction ID (OFX imports only) */
+  fitId?: string;
+  status: ImportRowStatus;
+  /** Transaction that was (or in dry-run mode would be) created */
+  transaction?: TransactionCreateInput;
+  transactionId?: string;
+  /** IDs of existing transactions this row appears to duplicate */
+  duplicates?: string[];
+  error?: string;
+}
+
+/**
+ * Response for statement import operations
+ */
+export interface ImportResponse {
+  /** True when no row failed or was invalid */
+  success: boolean;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  failed: number;
+  skipped: number;
+  invalid: number;
+  rows: ImportRowResult[];
+  warnings?: string[];
+}
+
+// ============================================================================
+// Recurring Types
+// ============================================================================
+
+/**
+ * How often a recurring template falls due
+ */
+export type RecurringFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+/**
+ * When a recurring template falls due
+ */
+export interface RecurringSchedule {
+  frequency: RecurringFrequency;
+  /** Number of days, weeks, months or years between occurrences */
+  interval: number;
+  startDate: string;
+  /** Last date an occurrence may fall on (inclusive) */
+  endDate?: string;
+  /** Day of the month for monthly and yearly schedules, clamped to short months */
+  dayOfMonth?: number;
+}
+
+/**
+ * A stored recurring transaction or transfer
+ * The template holds everything but the date, which comes from the schedule.
+ */
+export interface RecurringTemplate {
+  id: string;
+  name: string;
+  schedule: RecurringSchedule;
+  transaction?: Omit<TransactionCreateInput, "mbDate">;
+  transfer?: Omit<TransferCreateInput, "moveDate">;
+  createdAt: string;
+  /** Date of the last occurrence that was posted */
+  lastRunDate?: string;
+}
+
+/**
+ * A recurring template with its next due date
+ */
+export interface RecurringTemplateSummary extends RecurringTemplate {
+  /** Undefined once the schedule has ended */
+  nextDate?: string;
+}
+
+/**
+ * Response for recurring_list
+ */
+export interface RecurringListResponse {
+  count: number;
+  templates: RecurringTemplateSummary[];
+}
+
+/**
+ * Response for recurring_add and recurring_remove
+ */
+export interface RecurringOperationResponse {
+  success: boolean;
+  template: RecurringTemplateSummary;
+  message?: string;
+}
+
+/**
+ * Outcome for one occurrence posted by recurring_run_due
+ */
+export interface RecurringRunResult {
+  templateId: string;
+  name: string;
+  date: string;
+  success: boolean;
+  /** ID of the new transaction or transfer */
+  transactionId?: string;
+  /** True when the occurrence matched an existing transaction and was not posted */
+  skipped?: boolean;
+  duplicates?: string[];
+  error?: { code: string; message: string };
+}
+
+/**
+ * Response for recurring_run_due
+ */
+export interface RecurringRunResponse {
+  /** True when no occurrence failed */
+  success: boolean;
+  asOf: string;
+  created: number;
+  failed: number;
+  skipped: number;
+  /** False when the occurrence limit was reached before everything due was posted */
+  complete: boolean;
+  results: RecurringRunResult[];
+}
+
+// ============================================================================
+// Budget Types
+// ============================================================================
+
+/**
+ * How long a budget runs: every calendar month, or one fixed date range
+ */
+export type BudgetPeriod = "monthly" | "custom";
+
+/**
+ * A stored spending limit for one expense category
+ */
+export interface Budget {
+  id: string;
+  /** Expense category name as it appears in summaries */
+  category: string;
+  mcid: string;
+  amount: number;
+  period: BudgetPeriod;
+  /** First and last day of a custom budget (inclusive) */
+  startDate?: string;
+  endDate?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * Response for budget_list
+ */
+export interface BudgetListResponse {
+  count: number;
+  budgets: Budget[];
+}
+
+/**
+ * Response for budget_set and budget_remove
+ */
+export interface BudgetOperationResponse {
+  success: boolean;
+  budget: Budget;
+  message?: string;
+}
+
+/**
+ * How spending in a budget's current period compares with its limit
+ * - on_track: the projected spend stays within the budget
+ * - at_risk: still within the budget, but projected to exceed it
+ * - over: the budget is already exceeded
+ */
+export interface BudgetStatus {
+  id: string;
+  category: string;
+  period: BudgetPeriod;
+  startDate: string;
+  endDate: string;
+  amount: number;
+  spent: number;
+  /** Negative once the budget is exceeded */
+  remaining: number;
+  percentUsed: number;
+  daysElapsed: number;
+  daysInPeriod: number;
+  /** Spend at the end of the period if spending continues at the same daily rate */
+  projectedSpend: number;
+  /** Amount by which the projected spend exceeds the budget; 0 if it does not */
+  projectedOverspend: number;
+  status: "on_track" | "at_risk" | "over";
+  /** Budget the server reports for the category, if any */
+  serverBudget?: number;
+}
+
+/**
+ * Response for budget_status
+ */
+export interface BudgetStatusResponse {
+  asOf: string;
+  budgets: BudgetStatus[];
+  over: number;
+  atRisk: number;
+  warnings?: string[];
+  /** Set when the data was read from a backup instead of the server */
+  offlineSource?: OfflineSourceInfo;
+}
+
+// ============================================================================
+// Journal Types
+// ============================================================================
+
+/**
+ * One step of reversing a journaled operation
+ * Transactions are stored as they were before the operation.
+ */
+export type UndoStep =
+  | { action: "deleteTransactions"; ids: string[] }
+  | { action: "createTransactions"; transactions: Transaction[] }
+  | { action: "restoreTransactions"; transactions: Transaction[] }
+  | { action: "createAsset"; asset: AssetUpdateInput }
+  | { action: "updateAsset"; asset: AssetUpdateInput }
+  | { action: "deleteAsset"; assetId: string }
+  | { action: "updateCard"; card: CardUpdateInput }
+  | {
+      action: "restoreRecurringRuns";
+      /** Last-run date before the run of each template it advanced; null when it had never run */
+      lastRunDates: Record<string, string | null>;
+    };
+
+/**
+ * A journaled tool call
+ */
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  input: unknown;
+  /** Steps that reverse the call, in order; empty if it cannot be undone */
+  undo: UndoStep[];
+  /** Parts of the call that the undo steps cannot reverse */
+  warnings?: string[];
+  /** ID of the operation this entry undid (undo entries only) */
+  undoes?: string;
+  /** New IDs of records the undo re-created, keyed by their old ID */
+  newIds?: Record<string, string>;
+}
+
+/**
+ * A journal entry as listed by journal_list
+ */
+export interface JournalEntrySummary {
+  id: string;
+  timestamp: string;
+  tool: string;
+  input: unknown;
+  undoable: boolean;
+  /** ID of the entry that undid this operation */
+  undoneBy?: string;
+  undoes?: string;
+  warnings?: string[];
+}
+
+/**
+ * Response for journal_list
+ */
+export interface JournalListResponse {
+  count: number;
+  entries: JournalEntrySummary[];
+}
+
+/**
+ * Outcome of one undo step
+ */
+export interface UndoStepResult {
+  action: UndoStep["action"];
+  success: boolean;
+  error?: { code: string; message: string };
+}
+
+/**
+ * Response for undo_last and undo_operation
+ */
+export interface UndoResponse {
+  /** True when every step succeeded */
+  success: boolean;
+  operationId: string;
+  tool: string;
+  steps: UndoStepResult[];
+  /** New IDs assigned to re-created records, keyed by their old ID */
+  newIds?: Record<string, string>;
+  warnings?: string[];
+  message?: string;
+}
+
+// ============================================================================
+// Dry Run Types
+// ============================================================================
+
+/**
+ * A write request that was recorded instead of sent
+ */
+export interface DryRunRequest {
+  method: "POST";
+  endpoint: string;
+  /** Form fields that would be sent; empty fields are left out */
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Response for a mutating tool called in dry-run mode
+ */
+export interface DryRunResponse {
+  dryRun: true;
+  tool: string;
+  /** Write requests the call would send, in order */
+  requests: DryRunRequest[];
+  /**
+   * The tool's own response, worked out as if every write succeeded; IDs the
+   * server would assign are missing
+   */
+  result: unknown;
+  message: string;
+}
+
+// ============================================================================
+// Confirmation Types
+// ============================================================================
+
+/**
+ * Response for a destructive tool called without a confirmation token
+ * Nothing has been changed; repeating the call with the token makes the
+ * change.
+ */
+export interface ConfirmationResponse<TSummary> {
+  success: false;
+  confirmationRequired: true;
+  confirmationToken: string;
+  expiresAt: string;
+  /** What the confirmed call would remove */
+  summary: TSummary;
+  message: string;
+}
+
+/**
+ * What transaction_delete would remove
+ */
+export interface TransactionDeleteSummary {
+  transactions: Transaction[];
+  /** IDs not found in the lookback window */
+  notFound: string[];
+  totalIncome: number;
+  totalExpense: number;
+}
+
+/**
+ * What asset_delete would remove
+ */
+export interface AssetDeleteSummary {
+  assetId: string;
+  found: boolean;
+  assetName?: string;
+  groupName?: string;
+  /** Current balance, or the unpaid amount for a credit card */
+  balance?: number;
 }
 
 // ============================================================================
@@ -577,6 +1331,169 @@ export interface DefaultsConfig {
   dateFormat: string;
 }
 
+/**
+ * Reference data cache configuration
+ */
+export interface CacheConfig {
+  enabled: boolean;
+  ttlMs: number;
+}
+
+/**
+ * Transaction list chunking configuration
+ */
+export interface TransactionListConfig {
+  chunkMonths: number;
+  concurrency: number;
+}
+
+/**
+ * CSV column reference: a header name or a 0-based position
+ */
+export type CsvColumn = string | number;
+
+/**
+ * Auto-categorization rule
+ * Every condition present must hold for the rule to apply.
+ */
+export interface CategoryRule {
+  /** Case-insensitive text the description must contain */
+  keyword?: string;
+  /** Case-insensitive regular expression tested against the description */
+  pattern?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  /** Asset ID or name */
+  asset?: string;
+  /** Restricts the rule to income ("0") or expense ("1") */
+  inOutCode?: "0" | "1";
+  category: string;
+  subCategory?: string;
+}
+
+/**
+ * Column mapping profile for CSV statement import
+ */
+export interface CsvImportProfile {
+  delimiter: string;
+  hasHeader: boolean;
+  skipRows: number;
+  dateColumn: CsvColumn;
+  dateFormat: string;
+  /** Single signed amount column */
+  amountColumn?: CsvColumn;
+  amountSign: "negativeIsExpense" | "positiveIsExpense";
+  /** Separate money-out/money-in columns, used when amountColumn is not set */
+  debitColumn?: CsvColumn;
+  creditColumn?: CsvColumn;
+  decimalSeparator: "." | ",";
+  descriptionColumn: CsvColumn;
+  notesColumn?: CsvColumn;
+  assetId?: string;
+  assetName?: string;
+  payType?: string;
+  rules: CategoryRule[];
+  defaultIncomeCategory?: string;
+  defaultExpenseCategory?: string;
+}
+
+/**
+ * Statement import configuration
+ */
+export interface ImportsConfig {
+  csvProfiles: Record<string, CsvImportProfile>;
+}
+
+/**
+ * Auto-categorization configuration
+ */
+export interface CategorizationConfig {
+  rules: CategoryRule[];
+  /** Fall back to the category most used for similar past descriptions */
+  learnFromHistory: boolean;
+  /** Months of history searched for similar descriptions */
+  historyMonths: number;
+}
+
+/**
+ * Duplicate detection configuration
+ */
+export interface DuplicatesConfig {
+  policy: "off" | "warn" | "block" | "skip";
+  /** Maximum number of days between two duplicate transactions */
+  windowDays: number;
+}
+
+/**
+ * Local state storage configuration
+ */
+export interface StorageConfig {
+  /** Directory for local state files, relative to the working directory */
+  dataDir: string;
+}
+
+/**
+ * Undo journal configuration
+ */
+export interface JournalConfig {
+  /** Record mutating tool calls so they can be undone */
+  enabled: boolean;
+  /** Months scanned for the prior state of deleted or updated transactions */
+  lookbackMonths: number;
+}
+
+/**
+ * Confirmation configuration
+ */
+export interface ConfirmationsConfig {
+  /** Require a confirmation token before deleting transactions or assets */
+  enabled: boolean;
+  /** How long a confirmation token stays valid, in milliseconds */
+  ttlMs: number;
+}
+
+/**
+ * Number of scheduled snapshots kept per period
+ */
+export interface BackupRetentionConfig {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+/**
+ * Backup configuration
+ */
+export interface BackupConfig {
+  /** Offer the backup_download and backup_restore tools */
+  enabled: boolean;
+  /** Tables a file must have to be restored */
+  requiredTables: string[];
+  /** Directory for local backups, relative to the data directory */
+  directory: string;
+  /** Cron expression for scheduled snapshots, in local time */
+  schedule: string;
+  retention: BackupRetentionConfig;
+}
+
+/**
+ * Offline data source configuration
+ */
+export interface OfflineConfig {
+  /** Backup file to read; defaults to the newest backup in the manifest */
+  file?: string;
+  /** Read from the backup when the server cannot be reached */
+  fallback: boolean;
+}
+
+/**
+ * Access configuration
+ */
+export interface AccessConfig {
+  /** Refuse every tool and request that changes data */
+  readOnly: boolean;
+}
+
 /**
  * Complete application configuration
  */
@@ -585,6 +1502,19 @@ export interface AppConfig {
   session?: SessionConfig;
   logging?: LoggingConfig;
   defaults?: DefaultsConfig;
+  cache?: CacheConfig;
+  transactionList?: TransactionListConfig;
+  imports?: ImportsConfig;
+  categorization?: CategorizationConfig;
+  duplicates?: DuplicatesConfig;
+  storage?: StorageConfig;
+  journal?: JournalConfig;
+  confirmations?: ConfirmationsConfig;
+  backup?: BackupConfig;
+  offline?: OfflineConfig;
+  /** Preview every change instead of sending it to the server */
+  dryRun?: boolean;
+  access: AccessConfig;
 }
 
 // ============================================================================
@@ -0,0 +1,131 @@
+/**
+ * Shared helpers for the Money Manager MCP server
+ */
+
+// ============================================================================
+// Date Helpers
+// ============================================================================
+
+/**
+ * An inclusive date range in YYYY-MM-DD format
+ */
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Parses a YYYY-MM-DD string as a UTC date
+ */
+export function parseDate(value: string): Date {
+  const [year = 0, month = 1, day = 1] = value.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Formats a UTC date as YYYY-MM-DD
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns today's date in YYYY-MM-DD format
+ */
+export function today(): string {
+  return formatDate(new Date());
+}
+
+/**
+ * Adds a number of days to a YYYY-MM-DD date
+ */
+export function addDays(value: string, days: number): string {
+  const date = parseDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDate(date);
+}
+
+/**
+ * Returns the number of days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (parseDate(to).getTime() - parseDate(from).getTime()) / 86400000,
+  );
+}
+
+/**
+ * Rounds an amount to two decimal places, hiding floating point noise in sums
+ */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Returns the first day of the month that is `months` after the given date
+ */
+export function startOfMonth(value: string, months: number = 0): string {
+  const date = parseDate(value);
+  return formatDate(
+    new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)),
+  );
+}
+
+/**
+ * Returns the last day of the month that is `months` after the given date
+ */
+export function endOfMonth(value: string, months: number = 0): string {
+  const date = parseDate(value);
+  return formatDate(
+    new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months + 1, 0),
+    ),
+  );
+}
+
+/**
+ * Splits a date range into consecutive windows of whole calendar months
+ * The first and last windows are trimmed to the requested range.
+ */
+export function splitDateRange(range: DateRange, months: number): DateRange[] {
+  const windows: DateRange[] = [];
+  let startDate = range.startDate;
+
+  while (startDate <= range.endDate) {
+    const windowEnd = endOfMonth(startDate, months - 1);
+    const endDate = windowEnd < range.endDate ? windowEnd : range.endDate;
+    windows.push({ startDate, endDate });
+    startDate = addDays(endDate, 1);
+  }
+
+  return windows;
+}
+
+// ============================================================================
+// Concurrency Helpers
+// ============================================================================
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight
+ * Results are returned in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { selectBackupsToKeep } from "../../src/backup/index.js";
+import type { BackupManifestEntry } from "../../src/types/index.js";
+
+function snapshot(createdAt: string): BackupManifestEntry {
+  return {
+    file: `snapshot-${createdAt}.sqlite`,
+    kind: "scheduled",
+    createdAt,
+    size: 1,
+    sha256: "",
+    rowCounts: {},
+  };
+}
+
+/**
+ * Dates of the snapshots a policy keeps, newest first
+ */
+function kept(
+  entries: BackupManifestEntry[],
+  retention: { daily: number; weekly: number; monthly: number },
+): string[] {
+  const keep = selectBackupsToKeep(entries, retention);
+  return entries
+    .filter((entry) => keep.has(entry.file))
+    .map((entry) => entry.createdAt.slice(0, 10))
+    .sort()
+    .reverse();
+}
+
+describe("selectBackupsToKeep", () => {
+  // One snapshot a day from Wednesday 1 January to Monday 10 March 2025
+  const daily = Array.from({ length: 69 }, (_, i) =>
+    snapshot(new Date(Date.UTC(2025, 0, 1 + i, 2)).toISOString()),
+  );
+
+  it("keeps the newest snapshot of each recent day", () => {
+    expect(kept(daily, { daily: 3, weekly: 0, monthly: 0 })).toEqual([
+      "2025-03-10",
+      "2025-03-09",
+      "2025-03-08",
+    ]);
+  });
+
+  it("keeps the newest snapshot of each week, weeks starting on Monday", () => {
+    expect(kept(daily, { daily: 0, weekly: 3, monthly: 0 })).toEqual([
+      "2025-03-10",
+      "2025-03-09",
+      "2025-03-02",
+    ]);
+  });
+
+  it("keeps the newest snapshot of each month", () => {
+    expect(kept(daily, { daily: 0, weekly: 0, monthly: 12 })).toEqual([
+      "2025-03-10",
+      "2025-02-28",
+      "2025-01-31",
+    ]);
+  });
+
+  it("counts a snapshot once for every period it is kept for", () => {
+    expect(kept(daily, { daily: 2, weekly: 2, monthly: 2 })).toEqual([
+      "2025-03-10",
+      "2025-03-09",
+      "2025-02-28",
+    ]);
+  });
+
+  it("keeps the newest of several snapshots on the same day", () => {
+    const entries = [
+      snapshot("2025-03-10T02:00:00.000Z"),
+      snapshot("2025-03-10T14:00:00.000Z"),
+      snapshot("2025-03-09T02:00:00.000Z"),
+    ];
+    const keep = selectBackupsToKeep(entries, {
+      daily: 1,
+      weekly: 0,
+      monthly: 0,
+    });
+    expect([...keep]).toEqual(["snapshot-2025-03-10T14:00:00.000Z.sqlite"]);
+  });
+
+  it("keeps nothing when every limit is zero", () => {
+    expect(
+      selectBackupsToKeep(daily, { daily: 0, weekly: 0, monthly: 0 }).size,
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { SqliteFile } from "../../src/backup/sqlite.js";
+import { createDatabase } from "../helpers/sqlite.js";
+
+const PAGE_SIZE = 1024;
+
+/**
+ * A table spread over interior, leaf and overflow pages
+ */
+async function createLedger(): Promise<Uint8Array> {
+  const rows = Array.from({ length: 400 }, (_, i) => {
+    const n = i + 1;
+    // Every 50th note is longer than a page and spills into overflow pages
+    const note = n % 50 === 0 ? `'${"x".repeat(3000 + n)}'` : `'note ${n}'`;
+    return `(${n}, ${n * 1.5}, ${note}, X'00ff')`;
+  });
+  return createDatabase(`
+    PRAGMA page_size = ${PAGE_SIZE};
+    CREATE TABLE INOUTCASH (uid INTEGER PRIMARY KEY, ZMONEY REAL, ZCONTENT TEXT, ZDATA BLOB);
+    CREATE INDEX idx_money ON INOUTCASH (ZMONEY);
+    CREATE TABLE "odd ""name""" (a, b);
+    INSERT INTO INOUTCASH VALUES ${rows.join(", ")};
+  `);
+}
+
+/**
+ * Page number of a table's b-tree root
+ */
+async function rootPage(data: Uint8Array, table: string): Promise<number> {
+  const db = await SqliteFile.open(data);
+  try {
+    const row = db
+      .readRows({ name: "sqlite_master", columns: [] })
+      .find((r) => r["name"] === table);
+    return Number(row?.["rootpage"]);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Page number of an overflow page that links to a further one
+ * Overflow pages start with the next page's number, followed by payload.
+ */
+function linkedOverflowPage(data: Uint8Array): number {
+  const view = Buffer.from(data.buffer, data.byteOffset, data.length);
+  const filler = Buffer.alloc(PAGE_SIZE - 4, "x");
+  for (let page = 2; page * PAGE_SIZE <= view.length; page++) {
+    const start = (page - 1) * PAGE_SIZE;
+    if (
+      view.readUInt32BE(start) !== 0 &&
+      view.subarray(start + 4, start + PAGE_SIZE).equals(filler)
+    ) {
+      return page;
+    }
+  }
+  throw new Error("no overflow page found");
+}
+
+describe("SqliteFile", () => {
+  it("lists tables and their columns, ignoring case on lookup", async () => {
+    const db = await SqliteFile.open(await createLedger());
+    try {
+      expect(db.tables().map((t) => t.name)).toEqual([
+        "INOUTCASH",
+        'odd "name"',
+      ]);
+      expect(db.table("inoutcash")?.columns).toEqual([
+        "uid",
+        "ZMONEY",
+        "ZCONTENT",
+        "ZDATA",
+      ]);
+      expect(db.table("missing")).toBeUndefined();
+    } finally {
+      db.close();
+    }
+  });
+
+  it("reads rows stored on interior, leaf and overflow pages", async () => {
+    const db = await SqliteFile.open(await createLedger());
+    try {
+      const table = db.table("INOUTCASH");
+      if (!table) {
+        throw new Error("table missing");
+      }
+      const rows = db.readRows(table);
+
+      expect(db.countRows(table)).toBe(400);
+      expect(rows).toHaveLength(400);
+      expect(rows[0]).toEqual({
+        uid: 1,
+        ZMONEY: 1.5,
+        ZCONTENT: "note 1",
+        ZDATA: new Uint8Array([0, 255]),
+      });
+      expect(rows[349]?.["ZCONTENT"]).toBe("x".repeat(3350));
+      expect(rows.map((r) => r["uid"])).toEqual(
+        Array.from({ length: 400 }, (_, i) => i + 1),
+      );
+      expect(db.checkIntegrity()).toEqual([]);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("reports a damaged b-tree page", async () => {
+    const data = await createLedger();
+    const page = await rootPage(data, "INOUTCASH");
+    // Overwrite the page header and cell pointers of the table's root
+    data.fill(0xff, (page - 1) * PAGE_SIZE, (page - 1) * PAGE_SIZE + 64);
+
+    const db = await SqliteFile.open(data);
+    try {
+      expect(db.checkIntegrity()).not.toEqual([]);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("reports a broken overflow chain", async () => {
+    const data = await createLedger();
+    const page = linkedOverflowPage(data);
+    Buffer.from(data.buffer, data.byteOffset).writeUInt32BE(
+      0x7fffffff,
+      (page - 1) * PAGE_SIZE,
+    );
+
+    const db = await SqliteFile.open(data);
+    try {
+      expect(db.checkIntegrity().join("\n")).toMatch(/invalid page number/);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("rejects data that is not a SQLite database", async () => {
+    await expect(
+      SqliteFile.open(new TextEncoder().encode("not a database".repeat(10))),
+    ).rejects.toThrow("the file does not have a SQLite header");
+  });
+});
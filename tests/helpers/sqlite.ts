@@ -0,0 +1,35 @@
+/**
+ * SQLite fixtures for tests
+ * Databases are built with the same SQLite engine the server uses, so tests
+ * run against real database files without binary fixtures in the repository.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import initSqlJs from "sql.js";
+
+/**
+ * Runs SQL statements on a new database and returns its file contents
+ */
+export async function createDatabase(sql: string): Promise<Uint8Array> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.exec(sql);
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Writes data to a file in a new temporary directory
+ * @returns The file's path
+ */
+export function writeTempFile(name: string, data: Uint8Array | string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "money-manager-test-"));
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, data);
+  return filePath;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseAmount,
+  parseCsv,
+  parseDateWithFormat,
+  readCsvStatement,
+} from "../../src/import/csv.js";
+import { ValidationError } from "../../src/errors/index.js";
+import type { CsvImportProfile } from "../../src/types/index.js";
+
+const PROFILE: CsvImportProfile = {
+  delimiter: ",",
+  hasHeader: true,
+  skipRows: 0,
+  dateColumn: "Date",
+  dateFormat: "DD/MM/YYYY",
+  amountColumn: "Amount",
+  amountSign: "negativeIsExpense",
+  decimalSeparator: ".",
+  descriptionColumn: "Description",
+  notesColumn: "Reference",
+  rules: [],
+};
+
+describe("parseCsv", () => {
+  it("splits records and fields", () => {
+    expect(parseCsv("a,b\r\nc,d\n")).toEqual([
+      { line: 1, fields: ["a", "b"] },
+      { line: 2, fields: ["c", "d"] },
+    ]);
+  });
+
+  it("handles quoted delimiters, quotes and line breaks", () => {
+    expect(parseCsv('"a, b","say ""hi""","two\nlines"\nnext,row')).toEqual([
+      { line: 1, fields: ["a, b", 'say "hi"', "two\nlines"] },
+      { line: 3, fields: ["next", "row"] },
+    ]);
+  });
+
+  it("skips blank lines and a byte order mark", () => {
+    expect(parseCsv("﻿a;b\n\n ; \nc;d", ";")).toEqual([
+      { line: 1, fields: ["a", "b"] },
+      { line: 4, fields: ["c", "d"] },
+    ]);
+  });
+});
+
+describe("parseDateWithFormat", () => {
+  it.each([
+    ["2024-03-05", "YYYY-MM-DD", "2024-03-05"],
+    ["05/03/2024", "DD/MM/YYYY", "2024-03-05"],
+    ["3/5/24", "M/D/YY", "2024-03-05"],
+    ["05 Mar 2024", "DD MMM YYYY", "2024-03-05"],
+    ["05-mar-2024", "DD-MMM-YYYY", "2024-03-05"],
+    ["2024.03.05", "YYYY.MM.DD", "2024-03-05"],
+    [" 29/02/2024 ", "DD/MM/YYYY", "2024-02-29"],
+  ])("reads %s as %s", (value, format, expected) => {
+    expect(parseDateWithFormat(value, format)).toBe(expected);
+  });
+
+  it.each([
+    ["2024-03-05", "DD/MM/YYYY"],
+    ["2024x03x05", "YYYY.MM.DD"],
+    ["31/04/2024", "DD/MM/YYYY"],
+    ["29/02/2023", "DD/MM/YYYY"],
+    ["05 Foo 2024", "DD MMM YYYY"],
+    ["00/03/2024", "DD/MM/YYYY"],
+  ])("rejects %s for %s", (value, format) => {
+    expect(parseDateWithFormat(value, format)).toBeUndefined();
+  });
+});
+
+describe("parseAmount", () => {
+  it.each([
+    ["1,234.56", ".", 1234.56],
+    ["-42.10", ".", -42.1],
+    ["42.10-", ".", -42.1],
+    ["(42.10)", ".", -42.1],
+    ["(-5)", ".", 5],
+    ["$ 1,000", ".", 1000],
+    [".5", ".", 0.5],
+    ["1.234,56", ",", 1234.56],
+    ["-12,5 €", ",", -12.5],
+  ] as const)(
+    "reads %s with %s decimals as %d",
+    (value, separator, expected) => {
+      expect(parseAmount(value, separator)).toBe(expected);
+    },
+  );
+
+  it.each(["", "  ", "abc", "1.2.3", "--"])("rejects %j", (value) => {
+    expect(parseAmount(value)).toBeUndefined();
+  });
+});
+
+describe("readCsvStatement", () => {
+  it("maps rows through a profile with a signed amount column", () => {
+    const csv = [
+      "Date,Description,Amount,Reference",
+      "05/03/2024,Big Bazaar,-120.50,POS 1",
+      '06/03/2024,"ACME, Inc",5000,',
+    ].join("\n");
+
+    expect(readCsvStatement(csv, PROFILE)).toEqual([
+      {
+        line: 2,
+        mbDate: "2024-03-05",
+        mbCash: 120.5,
+        inOutCode: "1",
+        mbContent: "Big Bazaar",
+        mbDetailContent: "POS 1",
+      },
+      {
+        line: 3,
+        mbDate: "2024-03-06",
+        mbCash: 5000,
+        inOutCode: "0",
+        mbContent: "ACME, Inc",
+        mbDetailContent: undefined,
+      },
+    ]);
+  });
+
+  it("flips the sign when positive amounts are expenses", () => {
+    const [row] = readCsvStatement(
+      "Date,Description,Amount\n05/03/2024,Card,30",
+      { ...PROFILE, notesColumn: undefined, amountSign: "positiveIsExpense" },
+    );
+    expect(row).toMatchObject({ mbCash: 30, inOutCode: "1" });
+  });
+
+  it("reads debit and credit columns by position", () => {
+    const profile: CsvImportProfile = {
+      ...PROFILE,
+      hasHeader: false,
+      skipRows: 1,
+      dateColumn: 0,
+      descriptionColumn: 1,
+      amountColumn: undefined,
+      debitColumn: 2,
+      creditColumn: 3,
+      notesColumn: undefined,
+    };
+    const csv =
+      "Statement for March\n05/03/2024,Rent,900,\n06/03/2024,Refund,,25";
+
+    expect(
+      readCsvStatement(csv, profile).map((row) =>
+        "error" in row ? row : [row.line, row.mbCash, row.inOutCode],
+      ),
+    ).toEqual([
+      [2, 900, "1"],
+      [3, 25, "0"],
+    ]);
+  });
+
+  it("reports rows that cannot be mapped", () => {
+    const csv = [
+      "Date,Description,Amount,Reference",
+      "2024-03-05,Wrong date,-1,",
+      "05/03/2024,No amount,,",
+      "05/03/2024,Zero,0,",
+    ].join("\n");
+
+    expect(readCsvStatement(csv, PROFILE)).toEqual([
+      { line: 2, error: 'Date "2024-03-05" does not match format DD/MM/YYYY' },
+      { line: 3, error: "Row has no amount" },
+      { line: 4, error: "Row has no amount" },
+    ]);
+  });
+
+  it("rejects a profile column missing from the header", () => {
+    expect(() =>
+      readCsvStatement("Date,Text,Amount\n05/03/2024,x,1", PROFILE),
+    ).toThrow(ValidationError);
+  });
+});
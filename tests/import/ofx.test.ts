@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { parseOfxTransactions } from "../../src/import/ofx.js";
+
+describe("parseOfxTransactions", () => {
+  it("reads SGML entries without closing tags", () => {
+    const ofx = [
+      "OFXHEADER:100",
+      "DATA:OFXSGML",
+      "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>",
+      "<DTSTART>20250401",
+      "<STMTTRN>",
+      "<TRNTYPE>DEBIT",
+      "<DTPOSTED>20250405120000[-5:EST]",
+      "<TRNAMT>-42.10",
+      "<FITID>F1",
+      "<NAME>BIG BAZAAR &amp; CO",
+      "<MEMO>POS 1234",
+      "<STMTTRN>",
+      "<TRNTYPE>CREDIT",
+      "<DTPOSTED>20250406",
+      "<TRNAMT>1000,00",
+      "<FITID>F2",
+      "<NAME>ACME",
+      "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+    ].join("\n");
+
+    expect(parseOfxTransactions(ofx)).toEqual([
+      {
+        line: 5,
+        fitId: "F1",
+        datePosted: "2025-04-05",
+        amount: -42.1,
+        name: "BIG BAZAAR & CO",
+        memo: "POS 1234",
+        trnType: "DEBIT",
+      },
+      {
+        line: 12,
+        fitId: "F2",
+        datePosted: "2025-04-06",
+        amount: 1000,
+        name: "ACME",
+        memo: undefined,
+        trnType: "CREDIT",
+      },
+    ]);
+  });
+
+  it("reads XML entries", () => {
+    const ofx = `<?xml version="1.0"?>
+<OFX><BANKTRANLIST>
+  <STMTTRN><TRNTYPE>POS</TRNTYPE><DTPOSTED>20250407</DTPOSTED><TRNAMT>-3.5</TRNAMT><FITID>X1</FITID><NAME>Tea &lt;hot&gt;</NAME></STMTTRN>
+</BANKTRANLIST></OFX>`;
+
+    expect(parseOfxTransactions(ofx)).toEqual([
+      {
+        line: 3,
+        fitId: "X1",
+        datePosted: "2025-04-07",
+        amount: -3.5,
+        name: "Tea <hot>",
+        memo: undefined,
+        trnType: "POS",
+      },
+    ]);
+  });
+
+  it("reports entries that cannot be read", () => {
+    const ofx = [
+      "<BANKTRANLIST>",
+      "<STMTTRN><DTPOSTED>20250405<TRNAMT>-1</STMTTRN>",
+      "<STMTTRN><FITID>B<DTPOSTED>2025<TRNAMT>-1</STMTTRN>",
+      "<STMTTRN><FITID>C<DTPOSTED>20250405<TRNAMT>abc</STMTTRN>",
+      "<STMTTRN><FITID>D<DTPOSTED>20250405</STMTTRN>",
+      "</BANKTRANLIST>",
+    ].join("\n");
+
+    expect(parseOfxTransactions(ofx)).toEqual([
+      { line: 2, error: "Entry has no FITID" },
+      { line: 3, fitId: "B", error: 'Invalid DTPOSTED "2025"' },
+      { line: 4, fitId: "C", error: 'Invalid TRNAMT "abc"' },
+      { line: 5, fitId: "D", error: 'Invalid TRNAMT ""' },
+    ]);
+  });
+});
@@ -0,0 +1,232 @@
+import { afterEach, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { SqliteFile } from "../../src/backup/sqlite.js";
+import { FileError } from "../../src/errors/index.js";
+import {
+  findSchemaProblems,
+  openOfflineLedger,
+} from "../../src/offline/index.js";
+import { createDatabase, writeTempFile } from "../helpers/sqlite.js";
+
+/**
+ * Epoch milliseconds of noon on a day, in local time as the app stores it
+ */
+function stamp(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year ?? 0, (month ?? 1) - 1, day, 12).getTime();
+}
+
+/**
+ * Tables as found in a Money Manager backup
+ */
+const SCHEMA = `
+  CREATE TABLE ZCATEGORY (uid TEXT PRIMARY KEY, NAME TEXT, TYPE INTEGER, pUid TEXT, ORDERSEQ INTEGER, IS_DEL INTEGER);
+  CREATE TABLE ASSETGROUP (uid TEXT, ACC_GROUP_NAME TEXT, TYPE INTEGER, ORDERSEQ INTEGER);
+  CREATE TABLE ASSETS (uid TEXT, NIC_NAME TEXT, groupUid TEXT, ORDERSEQ INTEGER, IS_DEL INTEGER);
+  CREATE TABLE CARDINFO (assetUid TEXT, linkAssetUid TEXT, STL_DAY INTEGER, PAY_DAY INTEGER);
+  CREATE TABLE INOUTCASH (uid TEXT, ZDATE INTEGER, ZMONEY REAL, DO_TYPE INTEGER, assetUid TEXT, toAssetUid TEXT, ctgUid TEXT, ZCONTENT TEXT, ZDATA TEXT, IS_DEL INTEGER);
+`;
+
+const ROWS = `
+  INSERT INTO ZCATEGORY VALUES
+    ('c1', 'Food', 1, NULL, 1, 0), ('s1', 'Groceries', 1, 'c1', 1, 0),
+    ('c2', 'Salary', 0, NULL, 1, 0), ('c9', 'Old', 1, NULL, 9, 1);
+  INSERT INTO ASSETGROUP VALUES ('g1', 'Bank', 1, 1), ('g2', 'Cards', 2, 2);
+  INSERT INTO ASSETS VALUES
+    ('a1', 'HDFC Savings', 'g1', 1, 0), ('a2', 'Visa Card', 'g2', 2, 0),
+    ('a3', 'Gone', 'g1', 3, 1);
+  INSERT INTO CARDINFO VALUES ('a2', 'a1', 25, 5);
+  INSERT INTO INOUTCASH VALUES
+    ('x1', ${stamp("2026-09-01")}, 5000, 0, 'a1', NULL, 'c2', 'ACME', NULL, 0),
+    ('x2', ${stamp("2026-09-03")}, 120.5, 1, 'a1', NULL, 's1', 'Big Bazaar', '#weekly', 0),
+    ('x3', ${stamp("2026-09-05")}, 30, 1, 'a2', NULL, 'c1', 'Dominos', NULL, 0),
+    ('x4', ${stamp("2026-09-20")}, 999, 1, 'a1', NULL, 'c1', 'deleted', NULL, 1),
+    ('x5', ${stamp("2026-09-25")}, 30, 3, 'a1', 'a2', NULL, 'pay card', NULL, 0),
+    ('x6', ${stamp("2026-09-25")}, 30, 4, 'a2', 'a1', NULL, 'pay card', NULL, 0);
+`;
+
+const files: string[] = [];
+
+async function ledgerFile(sql: string): Promise<string> {
+  const filePath = writeTempFile("money.sqlite", await createDatabase(sql));
+  files.push(filePath);
+  return filePath;
+}
+
+afterEach(() => {
+  for (const filePath of files.splice(0)) {
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  }
+});
+
+describe("openOfflineLedger", () => {
+  it("maps transactions, skipping deleted rows", async () => {
+    const ledger = await openOfflineLedger(await ledgerFile(SCHEMA + ROWS));
+    const transactions = ledger.listTransactions();
+
+    expect(transactions.map((t) => t.id)).toEqual([
+      "x1",
+      "x2",
+      "x3",
+      "x5",
+      "x6",
+    ]);
+    expect(transactions[1]).toEqual({
+      id: "x2",
+      mbDate: "2026-09-03",
+      assetId: "a1",
+      payType: "HDFC Savings",
+      mcid: "c1",
+      mbCategory: "Food",
+      mcscid: "s1",
+      subCategory: "Groceries",
+      mbContent: "Big Bazaar",
+      mbCash: 120.5,
+      inOutCode: "1",
+      inOutType: "Expense",
+      mbDetailContent: "#weekly",
+      tags: ["weekly"],
+    });
+    expect(transactions[3]).toMatchObject({
+      toAssetId: "a2",
+      inOutCode: "3",
+      inOutType: "Transfer-Out",
+    });
+    expect(
+      ledger
+        .listTransactions({ startDate: "2026-09-02", endDate: "2026-09-05" })
+        .map((t) => t.id),
+    ).toEqual(["x2", "x3"]);
+  });
+
+  it("computes balances from the transactions", async () => {
+    const ledger = await openOfflineLedger(await ledgerFile(SCHEMA + ROWS));
+
+    expect(ledger.assetGroups()).toEqual([
+      {
+        assetGroupId: "g1",
+        assetType: "group",
+        assetName: "Bank",
+        assetMoney: 4849.5,
+        children: [
+          {
+            assetId: "a1",
+            assetGroupId: "g1",
+            assetType: "item",
+            assetName: "HDFC Savings",
+            assetMoney: 4849.5,
+          },
+        ],
+      },
+    ]);
+    expect(ledger.cardGroups()[0]?.children).toEqual([
+      {
+        assetId: "a2",
+        assetName: "Visa Card",
+        assetMoney: 0,
+        notPayMoney: 0,
+        linkAssetId: "a1",
+        linkAssetName: "HDFC Savings",
+        jungsanDay: 25,
+        paymentDay: 5,
+      },
+    ]);
+    expect(
+      ledger.summarize({ startDate: "2026-09-01", endDate: "2026-09-30" }),
+    ).toMatchObject({
+      summary: { income: 5000, outcome: 150.5, sum: 4849.5 },
+      expenseByCategory: [{ mcname: "Food", mcSum: 150.5 }],
+    });
+  });
+
+  it("builds the category tree without deleted categories", async () => {
+    const ledger = await openOfflineLedger(await ledgerFile(SCHEMA + ROWS));
+
+    expect(ledger.categories()).toEqual({
+      income: [{ mcid: "c2", mcname: "Salary" }],
+      expense: [
+        {
+          mcid: "c1",
+          mcname: "Food",
+          mcsc: [{ mcscid: "s1", mcscname: "Groceries" }],
+        },
+      ],
+    });
+  });
+
+  it("reads the older column names", async () => {
+    const schema = SCHEMA.replace("ZDATE INTEGER", "WDATE TEXT")
+      .replace("ZMONEY REAL", "AMOUNT_ACCOUNT REAL")
+      .replace("NIC_NAME", "ZNAME");
+    const ledger = await openOfflineLedger(
+      await ledgerFile(
+        schema +
+          `INSERT INTO ASSETS VALUES ('a1', 'Wallet', 'g1', 1, 0);
+           INSERT INTO INOUTCASH VALUES ('x1', '2026-09-01 10:00', 12, 1, 'a1', NULL, NULL, 'Tea', NULL, 0);`,
+      ),
+    );
+
+    expect(ledger.listTransactions()).toMatchObject([
+      { id: "x1", mbDate: "2026-09-01", mbCash: 12, payType: "Wallet" },
+    ]);
+  });
+
+  it("names the columns that are missing", async () => {
+    const filePath = await ledgerFile(
+      SCHEMA.replace("DO_TYPE INTEGER", "KIND INTEGER").replace(
+        "NIC_NAME TEXT",
+        "LABEL TEXT",
+      ),
+    );
+
+    const error = await openOfflineLedger(filePath).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(FileError);
+    expect((error as FileError).message).toContain(
+      "table ASSETS has no name (NIC_NAME or ZNAME or NAME) column; its columns are uid, LABEL, groupUid, ORDERSEQ, IS_DEL",
+    );
+    expect((error as FileError).message).toContain(
+      "table INOUTCASH has no type (DO_TYPE) column",
+    );
+  });
+});
+
+describe("findSchemaProblems", () => {
+  async function problemsOf(sql: string): Promise<string[]> {
+    const db = await SqliteFile.open(await createDatabase(sql));
+    try {
+      return findSchemaProblems(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  it("accepts the expected layout", async () => {
+    expect(await problemsOf(SCHEMA)).toEqual([]);
+  });
+
+  it("only requires the transaction table", async () => {
+    expect(
+      await problemsOf(
+        "CREATE TABLE inoutcash (UID TEXT, ZDATE INTEGER, ZMONEY REAL, DO_TYPE INTEGER, ASSETUID TEXT);",
+      ),
+    ).toEqual([]);
+    expect(await problemsOf("CREATE TABLE other (a);")).toEqual([
+      "missing table INOUTCASH",
+    ]);
+  });
+
+  it("checks the tables that are present", async () => {
+    expect(
+      await problemsOf(
+        SCHEMA.replace("linkAssetUid TEXT", "bankUid TEXT").replace(
+          "TYPE INTEGER, pUid",
+          "KIND INTEGER, pUid",
+        ),
+      ),
+    ).toEqual([
+      "table CARDINFO has no linkAsset (linkAssetUid or LINK_ASSETUID) column; its columns are assetUid, bankUid, STL_DAY, PAY_DAY",
+      "table ZCATEGORY has no type (TYPE) column; its columns are uid, NAME, KIND, pUid, ORDERSEQ, IS_DEL",
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  nextOccurrence,
+  occurrencesBetween,
+} from "../../src/recurring/index.js";
+import type { RecurringSchedule } from "../../src/types/index.js";
+
+function schedule(overrides: Partial<RecurringSchedule>): RecurringSchedule {
+  return {
+    frequency: "monthly",
+    interval: 1,
+    startDate: "2025-01-31",
+    ...overrides,
+  };
+}
+
+describe("occurrencesBetween", () => {
+  it("steps daily and weekly schedules by their interval", () => {
+    expect(
+      occurrencesBetween(
+        schedule({ frequency: "daily", interval: 3, startDate: "2025-02-26" }),
+        "2025-02-26",
+        "2025-03-06",
+      ),
+    ).toEqual(["2025-02-26", "2025-03-01", "2025-03-04"]);
+    expect(
+      occurrencesBetween(
+        schedule({ frequency: "weekly", interval: 2, startDate: "2025-03-01" }),
+        "2025-03-01",
+        "2025-04-10",
+      ),
+    ).toEqual(["2025-03-01", "2025-03-15", "2025-03-29"]);
+  });
+
+  it("clamps monthly dates to short months without drifting", () => {
+    expect(
+      occurrencesBetween(schedule({}), "2025-01-01", "2025-05-31"),
+    ).toEqual([
+      "2025-01-31",
+      "2025-02-28",
+      "2025-03-31",
+      "2025-04-30",
+      "2025-05-31",
+    ]);
+  });
+
+  it("uses dayOfMonth and the interval for monthly schedules", () => {
+    expect(
+      occurrencesBetween(
+        schedule({ startDate: "2025-01-10", interval: 2, dayOfMonth: 30 }),
+        "2025-01-01",
+        "2025-08-01",
+      ),
+    ).toEqual(["2025-01-30", "2025-03-30", "2025-05-30", "2025-07-30"]);
+  });
+
+  it("keeps yearly schedules on 29 February in leap years", () => {
+    expect(
+      occurrencesBetween(
+        schedule({ frequency: "yearly", startDate: "2024-02-29" }),
+        "2024-01-01",
+        "2028-12-31",
+      ),
+    ).toEqual([
+      "2024-02-29",
+      "2025-02-28",
+      "2026-02-28",
+      "2027-02-28",
+      "2028-02-29",
+    ]);
+  });
+
+  it("stays within the range, the start date and the end date", () => {
+    const monthly = schedule({
+      startDate: "2025-01-15",
+      endDate: "2025-04-15",
+    });
+    expect(occurrencesBetween(monthly, "2025-02-16", "2025-12-31")).toEqual([
+      "2025-03-15",
+      "2025-04-15",
+    ]);
+    // A day before the start date in the first month is skipped
+    expect(
+      occurrencesBetween(
+        schedule({ startDate: "2025-01-20", dayOfMonth: 5 }),
+        "2025-01-01",
+        "2025-03-31",
+      ),
+    ).toEqual(["2025-02-05", "2025-03-05"]);
+    expect(occurrencesBetween(monthly, "2026-01-01", "2026-12-31")).toEqual([]);
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("returns the first date after the given one", () => {
+    expect(nextOccurrence(schedule({}))).toBe("2025-01-31");
+    expect(nextOccurrence(schedule({}), "2025-01-31")).toBe("2025-02-28");
+    expect(nextOccurrence(schedule({}), "2025-02-28")).toBe("2025-03-31");
+  });
+
+  it("returns undefined once the schedule has ended", () => {
+    expect(
+      nextOccurrence(schedule({ endDate: "2025-03-30" }), "2025-02-28"),
+    ).toBeUndefined();
+  });
+});
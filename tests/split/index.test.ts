@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "../../src/errors/index.js";
+import {
+  addSplitMarker,
+  parseSplitId,
+  splitPartAmounts,
+} from "../../src/split/index.js";
+
+const PARTS = [
+  { id: "p1", mbCash: 60 },
+  { id: "p2", mbCash: 30 },
+  { id: "p3", mbCash: 10 },
+];
+
+describe("split markers", () => {
+  it("round-trips the split ID through the notes", () => {
+    const notes = addSplitMarker("#trip dinner", "a1b2c3d4");
+    expect(notes).toBe("[split:a1b2c3d4] #trip dinner");
+    expect(parseSplitId(notes)).toBe("a1b2c3d4");
+    expect(parseSplitId("[SPLIT:ABCD] x")).toBe("abcd");
+    expect(parseSplitId("no marker")).toBeUndefined();
+  });
+});
+
+describe("splitPartAmounts", () => {
+  it("keeps the amounts when nothing changes", () => {
+    expect(splitPartAmounts(PARTS, {})).toEqual(
+      new Map([
+        ["p1", 6000],
+        ["p2", 3000],
+        ["p3", 1000],
+      ]),
+    );
+  });
+
+  it("rescales the parts in proportion to a new total", () => {
+    expect(splitPartAmounts(PARTS, { total: 50 })).toEqual(
+      new Map([
+        ["p1", 3000],
+        ["p2", 1500],
+        ["p3", 500],
+      ]),
+    );
+  });
+
+  it("gives rounding leftovers to the largest part", () => {
+    const amounts = splitPartAmounts(
+      [
+        { id: "a", mbCash: 1 },
+        { id: "b", mbCash: 1 },
+        { id: "c", mbCash: 1 },
+      ],
+      { total: 10 },
+    );
+    expect([...amounts.values()]).toEqual([334, 333, 333]);
+    expect([...amounts.values()].reduce((sum, cents) => sum + cents)).toBe(
+      1000,
+    );
+  });
+
+  it("rejects a total that rounds a part to zero", () => {
+    expect(() =>
+      splitPartAmounts(
+        [
+          { id: "a", mbCash: 100 },
+          { id: "b", mbCash: 0.01 },
+        ],
+        { total: 10 },
+      ),
+    ).toThrow(ValidationError);
+  });
+
+  it("takes given amounts that add up to the total", () => {
+    expect(
+      splitPartAmounts(PARTS, {
+        parts: [
+          { id: "p1", mbCash: 50 },
+          { id: "p2", mbCash: 40 },
+        ],
+      }),
+    ).toEqual(
+      new Map([
+        ["p1", 5000],
+        ["p2", 4000],
+        ["p3", 1000],
+      ]),
+    );
+    expect(
+      splitPartAmounts(PARTS, {
+        total: 120,
+        parts: [{ id: "p1", mbCash: 80 }],
+      }).get("p1"),
+    ).toBe(8000);
+  });
+
+  it("rejects given amounts that do not add up or unknown parts", () => {
+    expect(() =>
+      splitPartAmounts(PARTS, { parts: [{ id: "p1", mbCash: 61 }] }),
+    ).toThrow("amounts adding up to the total of 100");
+    expect(() =>
+      splitPartAmounts(PARTS, { parts: [{ id: "p9", mbCash: 1 }] }),
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  addTags,
+  normalizeTag,
+  parseTags,
+  setTags,
+} from "../../src/tags/index.js";
+
+describe("normalizeTag", () => {
+  it("strips the # and lowercases", () => {
+    expect(normalizeTag(" #Trip-Goa ")).toBe("trip-goa");
+  });
+});
+
+describe("parseTags", () => {
+  it("reads distinct hashtags in order", () => {
+    expect(parseTags("#Trip-Goa dinner #food #trip-goa #café_2")).toEqual([
+      "trip-goa",
+      "food",
+      "café_2",
+    ]);
+  });
+
+  it("ignores # inside words and bare #", () => {
+    expect(parseTags("order#123 # alone issue#4 ok")).toEqual([]);
+    expect(parseTags(undefined)).toEqual([]);
+    expect(parseTags("")).toEqual([]);
+  });
+});
+
+describe("addTags", () => {
+  it("appends only the missing tags", () => {
+    expect(addTags("dinner #food", ["#Food", "trip", "TRIP"])).toBe(
+      "dinner #food #trip",
+    );
+  });
+
+  it("starts empty notes with the tags", () => {
+    expect(addTags(undefined, ["a"])).toBe("#a");
+    expect(addTags("  ", [])).toBe("");
+  });
+});
+
+describe("setTags", () => {
+  it("replaces the tags and keeps the text", () => {
+    expect(setTags("#old dinner  with #friends team", ["new"])).toBe(
+      "dinner with team #new",
+    );
+  });
+
+  it("removes every tag when given none", () => {
+    expect(setTags("#a #b", [])).toBe("");
+  });
+});